@@ -1,5 +1,6 @@
 "use server";
 
+import { sessionPlayerId } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
 
 export type GameEvent = {
@@ -10,16 +11,9 @@ export type GameEvent = {
   created_at: string;
 };
 
-export async function logGameEvent(gameId: string, type: string, payload?: Record<string, unknown>) {
-  const supabase = createSupabaseServerClient();
-  await supabase.from("game_events").insert({
-    game_id: gameId,
-    type,
-    payload: payload ?? null,
-  });
-}
-
 export async function getRecentEvents(gameId: string, limit = 50): Promise<GameEvent[]> {
+  if (!(await sessionPlayerId(gameId))) return [];
+
   const supabase = createSupabaseServerClient();
   const { data, error } = await supabase
     .from("game_events")
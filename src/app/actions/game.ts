@@ -1,7 +1,21 @@
 "use server";
 
-import { logGameEvent } from "@/app/actions/events";
+import { KICKOFF_SPOT, KICKOFF_TOUCHBACK_SPOT, otherSide, spotFromOwnGoal } from "@/lib/fieldPosition";
+import { PLAY_CLOCK_SECONDS, playClockDeadline, QUARTER_SECONDS, TIMEOUTS_PER_HALF } from "@/lib/gameClock";
+import { logGameEvent } from "@/lib/gameEvents";
+import { replayDrift, replayGameLog } from "@/lib/gameReplay";
+import type { ReplayDrift, ReplayMismatch, ReplayState } from "@/lib/gameReplay";
+import { OVERTIME_RULES, overtimePossession } from "@/lib/overtime";
+import type { OvertimeRule } from "@/lib/overtime";
+import { PLAYBOOK_PHASES, playbookProblem, teamPlaybook } from "@/lib/playbook";
+import type { TeamPlaybook } from "@/lib/playbook";
+import { tossPossession } from "@/lib/playEngine";
+import { commitPlaySeed } from "@/lib/playSeed";
+import { claimGameRng, rngPayload } from "@/lib/rng";
+import { NOT_SIGNED_IN, sessionPlayerId } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
+import { ANSWER_RULES, CALL_MODES, effectiveCaptain } from "@/lib/teamRoles";
+import type { AnswerRule, CallMode } from "@/lib/teamRoles";
 
 export type GameState = {
   id: string;
@@ -29,6 +43,25 @@ export type GameState = {
   defense_side: "home" | "away" | null;
   second_half_kickoff_side: "home" | "away" | null;
   current_play_seq?: number | null;
+  current_question_id?: string | null;
+  kickoff_type?: "normal" | "squib" | "onside" | null;
+  overtime_rule?: OvertimeRule | null;
+  overtime_period?: number | null;
+  overtime_possessions?: number | null;
+  winner_side?: "home" | "away" | null;
+  timeouts_home?: number | null;
+  timeouts_away?: number | null;
+  clock_stopped?: boolean | null;
+  play_clock_deadline?: string | null;
+  play_seed_hash?: string | null;
+  playbook_home?: TeamPlaybook | null;
+  playbook_away?: TeamPlaybook | null;
+  call_mode_home?: CallMode | null;
+  call_mode_away?: CallMode | null;
+  captain_home?: string | null;
+  captain_away?: string | null;
+  answer_rule_home?: AnswerRule | null;
+  answer_rule_away?: AnswerRule | null;
   mode?: string | null;
   picker_player_id?: string | null;
   target_score?: number | null;
@@ -36,12 +69,23 @@ export type GameState = {
   winner_player_id?: string | null;
 };
 
+export type GameAdjustment = Partial<{
+  down: number;
+  distance: number;
+  yard_line: number;
+  possession_side: "home" | "away";
+  score_home: number;
+  score_away: number;
+  quarter: number;
+  clock_seconds: number;
+}>;
+
 export async function getGameByCode(code: string): Promise<GameState | null> {
   const supabase = createSupabaseServerClient();
   const { data, error } = await supabase
     .from("games")
     .select(
-      "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq, mode, picker_player_id, target_score, current_block, winner_player_id",
+      "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq, current_question_id, kickoff_type, overtime_rule, overtime_period, overtime_possessions, winner_side, timeouts_home, timeouts_away, clock_stopped, play_clock_deadline, play_seed_hash, playbook_home, playbook_away, call_mode_home, call_mode_away, captain_home, captain_away, answer_rule_home, answer_rule_away, mode, picker_player_id, target_score, current_block, winner_player_id",
     )
     .eq("code", code.toUpperCase())
     .single();
@@ -51,20 +95,40 @@ export async function getGameByCode(code: string): Promise<GameState | null> {
     return null;
   }
 
+  // Only players signed in to this game can read it.
+  if (!(await sessionPlayerId(data.id))) return null;
+
   return data as GameState;
 }
 
 export async function startCoinToss(gameId: string): Promise<boolean> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return false;
+
   const supabase = createSupabaseServerClient();
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!requester || requester.role !== "ref") return false;
+
+  // Only from the lobby: this resets the scoreboard, so it must never run on a game in progress.
+  const { data: game } = await supabase.from("games").select("phase").eq("id", gameId).maybeSingle();
+  if (!game || (game.phase ?? "lobby") !== "lobby") return false;
+
   const { error } = await supabase
     .from("games")
     .update({
       phase: "coin_toss",
-      clock_seconds: 900,
-      play_clock_seconds: 40,
+      quarter: 1,
+      clock_seconds: QUARTER_SECONDS,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
       down: 1,
       distance: 10,
-      yard_line: 25,
+      yard_line: 50, // nobody has the ball until the toss is decided
       possession_side: null,
       offense_side: null,
       defense_side: null,
@@ -72,6 +136,12 @@ export async function startCoinToss(gameId: string): Promise<boolean> {
       toss_result: null,
       toss_winner_side: null,
       toss_choice: null,
+      overtime_period: 0,
+      overtime_possessions: 0,
+      winner_side: null,
+      timeouts_home: TIMEOUTS_PER_HALF,
+      timeouts_away: TIMEOUTS_PER_HALF,
+      clock_stopped: false,
     })
     .eq("id", gameId);
 
@@ -79,6 +149,8 @@ export async function startCoinToss(gameId: string): Promise<boolean> {
     console.error("startCoinToss error", error.message);
     return false;
   }
+  // Publish the first play's dice commitment well before anyone calls it.
+  await commitPlaySeed(supabase, gameId);
   await logGameEvent(gameId, "coin_toss_started", {});
   return true;
 }
@@ -88,17 +160,32 @@ export async function resolveCoinTossAction(
   awayCall: "heads" | "tails",
   winnerChoice: "receive" | "kick" | "defer",
 ): Promise<{ success: boolean; error?: string; result?: { coin: string; winner: "home" | "away"; choice: string } }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
-  const coin = Math.random() < 0.5 ? "heads" : "tails";
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can settle the toss." };
+  }
+
+  const { data: game } = await supabase.from("games").select("phase").eq("id", gameId).maybeSingle();
+  if (game?.phase !== "coin_toss") return { success: false, error: "Not time for the coin toss." };
+
+  const rng = await claimGameRng(supabase, gameId);
+  const coin = rng.pick(["heads", "tails"]);
   const winner = coin === awayCall ? "away" : "home"; // visiting team (away) calls it
-  const other = winner === "home" ? "away" : "home";
-  const possession =
-    winnerChoice === "receive" ? winner : winnerChoice === "kick" ? other : other; // defer -> other side receives
+  const { possession, secondHalfKickoffSide: second_half_kickoff_side } = tossPossession(winner, winnerChoice);
   const offense_side = possession;
-  const defense_side = offense_side === "home" ? "away" : "home";
-  const second_half_kickoff_side = winnerChoice === "defer" ? winner : other;
+  const defense_side = otherSide(offense_side);
 
-  const { error } = await supabase
+  const { data: updated, error } = await supabase
     .from("games")
     .update({
       toss_result: coin,
@@ -110,35 +197,41 @@ export async function resolveCoinTossAction(
       phase: "kickoff",
       down: 1,
       distance: 10,
-      yard_line: 25,
-      clock_seconds: 900,
-      play_clock_seconds: 40,
+      yard_line: spotFromOwnGoal(defense_side, KICKOFF_SPOT),
+      clock_seconds: QUARTER_SECONDS,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
       play_subphase: null,
       last_play_id: null,
       second_half_kickoff_side,
     })
-    .eq("id", gameId);
+    .eq("id", gameId)
+    .eq("phase", "coin_toss")
+    .select("id");
 
   if (error) {
     return { success: false, error: error.message };
   }
+  if (!updated?.length) return { success: false, error: "The toss was already settled." };
 
   await logGameEvent(gameId, "coin_toss_result", {
     coin,
     winner,
     choice: winnerChoice,
     possession_side: possession,
+    ...rngPayload(rng),
   });
 
-  // Auto kickoff touchback event; ball already at 25
+  // Ball is spotted for the kickoff; answerKickoffQuestionAction resolves the kick and return.
   return { success: true, result: { coin, winner, choice: winnerChoice } };
 }
 
 export async function flipCoinAction(
   gameId: string,
-  requesterId: string,
   awayCall: "heads" | "tails",
 ): Promise<{ success: boolean; error?: string; coin?: string; winner?: "home" | "away" }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: player } = await supabase
@@ -157,10 +250,15 @@ export async function flipCoinAction(
     return { success: false, error: "Only away side (or ref) can call the toss." };
   }
 
-  const coin = Math.random() < 0.5 ? "heads" : "tails";
+  // Regulation and every overtime period both open here; a flip anywhere else would re-decide possession.
+  const { data: game } = await supabase.from("games").select("phase").eq("id", gameId).maybeSingle();
+  if (game?.phase !== "coin_toss") return { success: false, error: "Not time for the coin toss." };
+
+  const rng = await claimGameRng(supabase, gameId);
+  const coin = rng.pick(["heads", "tails"]);
   const winner = coin === awayCall ? "away" : "home";
 
-  const { error } = await supabase
+  const { data: updated, error } = await supabase
     .from("games")
     .update({
       toss_result: coin,
@@ -168,16 +266,20 @@ export async function flipCoinAction(
       toss_choice: null,
       phase: "coin_toss_choice",
     })
-    .eq("id", gameId);
+    .eq("id", gameId)
+    .eq("phase", "coin_toss")
+    .select("id");
 
   if (error) {
     return { success: false, error: error.message };
   }
+  if (!updated?.length) return { success: false, error: "The toss was already flipped." };
 
   await logGameEvent(gameId, "coin_toss_flipped", {
     coin,
     winner,
     call: awayCall,
+    ...rngPayload(rng),
   });
 
   return { success: true, coin, winner };
@@ -185,18 +287,23 @@ export async function flipCoinAction(
 
 export async function chooseTossOptionAction(
   gameId: string,
-  requesterId: string,
   choice: "receive" | "kick" | "defer",
 ): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: game } = await supabase
     .from("games")
-    .select("toss_winner_side, toss_result")
+    .select("phase, toss_winner_side, toss_result, overtime_rule, overtime_period")
     .eq("id", gameId)
     .single();
 
-  if (!game?.toss_winner_side) {
+  if (game?.phase !== "coin_toss_choice") {
+    return { success: false, error: "Not time to choose after the toss." };
+  }
+  if (!game.toss_winner_side) {
     return { success: false, error: "Toss not resolved yet." };
   }
 
@@ -217,13 +324,13 @@ export async function chooseTossOptionAction(
   }
 
   const winner = game.toss_winner_side as "home" | "away";
-  const other = winner === "home" ? "away" : "home";
-  const possession = choice === "receive" ? winner : choice === "kick" ? other : other; // defer -> other receives
+  const { possession, secondHalfKickoffSide: second_half_kickoff_side } = tossPossession(winner, choice);
   const offense_side = possession;
-  const defense_side = offense_side === "home" ? "away" : "home";
-  const second_half_kickoff_side = choice === "defer" ? winner : other;
+  const defense_side = otherSide(offense_side);
+  // College-style overtime skips the kickoff: the first team snaps from the opponent's 25.
+  const collegeOvertime = (game.overtime_period ?? 0) > 0 && game.overtime_rule === "college";
 
-  const { error } = await supabase
+  const { data: updated, error } = await supabase
     .from("games")
     .update({
       toss_choice: choice,
@@ -231,20 +338,26 @@ export async function chooseTossOptionAction(
       offense_side,
       defense_side,
       second_half_kickoff_side,
-      phase: "kickoff",
+      phase: collegeOvertime ? "drive" : "kickoff",
       down: 1,
       distance: 10,
-      yard_line: 25,
-      clock_seconds: 900,
-      play_clock_seconds: 40,
-      play_subphase: null,
+      yard_line: collegeOvertime
+        ? overtimePossession(possession).yardLine
+        : spotFromOwnGoal(defense_side, KICKOFF_SPOT),
+      clock_seconds: QUARTER_SECONDS,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
+      play_subphase: collegeOvertime ? "play_call" : null,
+      play_clock_deadline: collegeOvertime ? playClockDeadline() : null,
       last_play_id: null,
     })
-    .eq("id", gameId);
+    .eq("id", gameId)
+    .eq("phase", "coin_toss_choice")
+    .select("id");
 
   if (error) {
     return { success: false, error: error.message };
   }
+  if (!updated?.length) return { success: false, error: "The toss choice was already made." };
 
   await logGameEvent(gameId, "coin_toss_choice", {
     choice,
@@ -257,37 +370,111 @@ export async function chooseTossOptionAction(
   return { success: true };
 }
 
-export async function resolveKickoffTouchbackAction(gameId: string): Promise<{ success: boolean; error?: string }> {
+export async function startSecondHalfAction(
+  gameId: string,
+): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
-  const { data: game, error: gameError } = await supabase
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can start the second half." };
+  }
+
+  const { data: game } = await supabase
     .from("games")
-    .select("id, phase, possession_side")
+    .select("phase, second_half_kickoff_side")
     .eq("id", gameId)
-    .single();
+    .maybeSingle();
 
-  if (gameError || !game) {
-    return { success: false, error: gameError?.message || "Game not found." };
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+  if (game.phase !== "halftime") {
+    return { success: false, error: "Not at halftime." };
   }
 
-  if (game.phase !== "kickoff") {
-    return { success: false, error: "Not in kickoff phase." };
+  // Possession and field were already flipped when halftime began; this just opens the kickoff.
+  const { error } = await supabase
+    .from("games")
+    .update({ phase: "kickoff", play_subphase: null })
+    .eq("id", gameId);
+
+  if (error) {
+    return { success: false, error: error.message };
   }
 
-  const possession = game.possession_side ?? "home";
-  const offense_side = possession;
-  const defense_side = offense_side === "home" ? "away" : "home";
+  const kickingSide = (game.second_half_kickoff_side ?? "home") as "home" | "away";
+  await logGameEvent(gameId, "second_half_started", {
+    kicking_side: kickingSide,
+    receiving_side: otherSide(kickingSide),
+  });
+
+  return { success: true };
+}
+
+export async function callTimeoutAction(
+  gameId: string,
+  forSide?: "home" | "away", // allow ref to call on behalf
+): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!player) {
+    return { success: false, error: "Player not found." };
+  }
+
+  const side = (player.role === "ref" ? forSide : player.side) as "home" | "away" | null;
+  if (!side) {
+    return { success: false, error: "Only home or away (or the ref for a side) can call a timeout." };
+  }
 
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, play_subphase, quarter, clock_seconds, timeouts_home, timeouts_away, clock_stopped")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+  if (game.phase !== "drive" || game.play_subphase !== "play_call") {
+    return { success: false, error: "Timeouts can only be called while plays are being called." };
+  }
+  if (game.clock_stopped) {
+    return { success: false, error: "The clock is already stopped." };
+  }
+
+  const remaining = (side === "home" ? game.timeouts_home : game.timeouts_away) ?? TIMEOUTS_PER_HALF;
+  if (remaining <= 0) {
+    return { success: false, error: "No timeouts left this half." };
+  }
+
+  // The stopped clock holds until the next snap, which then only burns dead-ball time; the play clock starts over.
   const { error } = await supabase
     .from("games")
     .update({
-      phase: "drive",
-      offense_side,
-      defense_side,
-      down: 1,
-      distance: 10,
-      yard_line: 25,
-      play_subphase: "play_call",
+      [side === "home" ? "timeouts_home" : "timeouts_away"]: remaining - 1,
+      clock_stopped: true,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
+      play_clock_deadline: playClockDeadline(),
     })
     .eq("id", gameId);
 
@@ -295,16 +482,319 @@ export async function resolveKickoffTouchbackAction(gameId: string): Promise<{ s
     return { success: false, error: error.message };
   }
 
-  await logGameEvent(gameId, "kickoff_touchback", { possession_side: possession, yard_line: 25 });
+  await logGameEvent(gameId, "timeout_called", {
+    side,
+    remaining: remaining - 1,
+    quarter: game.quarter,
+    clock_seconds: game.clock_seconds,
+  });
 
   return { success: true };
 }
 
+export async function setOvertimeRuleAction(
+  gameId: string,
+  rule: OvertimeRule,
+): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  if (!OVERTIME_RULES.includes(rule)) {
+    return { success: false, error: "Unknown overtime rule." };
+  }
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can set overtime rules." };
+  }
+
+  const { data: game } = await supabase.from("games").select("overtime_period").eq("id", gameId).maybeSingle();
+
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+  if ((game.overtime_period ?? 0) > 0) {
+    return { success: false, error: "Overtime rules are locked once overtime starts." };
+  }
+
+  const { error } = await supabase.from("games").update({ overtime_rule: rule }).eq("id", gameId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await logGameEvent(gameId, "overtime_rule_set", { rule });
+
+  return { success: true };
+}
+
+export async function setTeamPlaybookAction(
+  gameId: string,
+  playbook: TeamPlaybook,
+  forSide?: "home" | "away", // the ref can set either side's book
+): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!player) {
+    return { success: false, error: "Player not found." };
+  }
+
+  const side = (player.role === "ref" ? forSide : player.side) as "home" | "away" | null;
+  if (!side) {
+    return { success: false, error: "Only home or away (or the ref for a side) can set a playbook." };
+  }
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, captain_home, captain_away")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+  if (!PLAYBOOK_PHASES.includes(game.phase)) {
+    return { success: false, error: "Playbooks can only change before kickoff or at halftime." };
+  }
+
+  if (player.role !== "ref") {
+    const { data: roster } = await supabase
+      .from("players")
+      .select("id")
+      .eq("game_id", gameId)
+      .eq("side", side)
+      .neq("role", "ref")
+      .order("created_at", { ascending: true });
+    const rosterIds = (roster ?? []).map((p) => p.id);
+    const captain = effectiveCaptain(side === "home" ? game.captain_home : game.captain_away, rosterIds);
+    if (player.id !== captain) {
+      return { success: false, error: "Only your captain can change the playbook." };
+    }
+  }
+
+  const book = teamPlaybook(playbook);
+  const problem = playbookProblem(book);
+  if (problem) {
+    return { success: false, error: problem };
+  }
+
+  const { error } = await supabase
+    .from("games")
+    .update({ [side === "home" ? "playbook_home" : "playbook_away"]: book })
+    .eq("id", gameId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await logGameEvent(gameId, "playbook_set", { side, ...book });
+
+  return { success: true };
+}
+
+// The ref can set either side's roles; otherwise only the side's captain (its first player until one is named).
+export async function setTeamRolesAction(
+  gameId: string,
+  roles: { mode?: CallMode; captainId?: string; answerRule?: AnswerRule },
+  forSide?: "home" | "away",
+): Promise<{ success: boolean; error?: string }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  if (roles.mode && !CALL_MODES.includes(roles.mode)) {
+    return { success: false, error: "Unknown calling mode." };
+  }
+  if (roles.answerRule && !ANSWER_RULES.includes(roles.answerRule)) {
+    return { success: false, error: "Unknown answer rule." };
+  }
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!player) {
+    return { success: false, error: "Player not found." };
+  }
+
+  const side = (player.role === "ref" ? forSide : player.side) as "home" | "away" | null;
+  if (!side) {
+    return { success: false, error: "Only home or away (or the ref for a side) can set team roles." };
+  }
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("captain_home, captain_away")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+
+  const { data: roster } = await supabase
+    .from("players")
+    .select("id")
+    .eq("game_id", gameId)
+    .eq("side", side)
+    .neq("role", "ref")
+    .order("created_at", { ascending: true });
+  const rosterIds = (roster ?? []).map((p) => p.id);
+  const captain = effectiveCaptain(side === "home" ? game.captain_home : game.captain_away, rosterIds);
+
+  if (player.role !== "ref" && player.id !== captain) {
+    return { success: false, error: "Only your captain can change team roles." };
+  }
+  if (roles.captainId && !rosterIds.includes(roles.captainId)) {
+    return { success: false, error: "The captain must be on the team." };
+  }
+
+  const changes: Record<string, string> = {};
+  if (roles.mode) changes[side === "home" ? "call_mode_home" : "call_mode_away"] = roles.mode;
+  if (roles.captainId) changes[side === "home" ? "captain_home" : "captain_away"] = roles.captainId;
+  if (roles.answerRule) changes[side === "home" ? "answer_rule_home" : "answer_rule_away"] = roles.answerRule;
+  if (Object.keys(changes).length === 0) {
+    return { success: false, error: "Nothing to change." };
+  }
+
+  const { error } = await supabase.from("games").update(changes).eq("id", gameId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await logGameEvent(gameId, "team_roles_set", {
+    side,
+    mode: roles.mode,
+    captain_id: roles.captainId,
+    answer_rule: roles.answerRule,
+  });
+
+  return { success: true };
+}
+
+const ADJUSTABLE_LIMITS: Record<Exclude<keyof GameAdjustment, "possession_side">, [number, number]> = {
+  down: [1, 4],
+  distance: [1, 100],
+  yard_line: [0, 100],
+  score_home: [0, 999],
+  score_away: [0, 999],
+  quarter: [1, 99],
+  clock_seconds: [0, QUARTER_SECONDS],
+};
+
+export async function adjustGameStateAction(
+  gameId: string,
+  changes: GameAdjustment,
+  reason: string,
+): Promise<{ success: boolean; error?: string; game?: GameState }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can adjust the game state." };
+  }
+
+  if (!reason?.trim()) {
+    return { success: false, error: "A reason is required for every adjustment." };
+  }
+
+  for (const [field, [min, max]] of Object.entries(ADJUSTABLE_LIMITS)) {
+    const value = changes[field as keyof typeof ADJUSTABLE_LIMITS];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { success: false, error: `${field} must be a whole number from ${min} to ${max}.` };
+    }
+  }
+  if (changes.possession_side !== undefined && !["home", "away"].includes(changes.possession_side)) {
+    return { success: false, error: "possession_side must be home or away." };
+  }
+
+  const { data: before } = await supabase
+    .from("games")
+    .select(
+      "down, distance, yard_line, possession_side, offense_side, defense_side, score_home, score_away, quarter, clock_seconds",
+    )
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (!before) {
+    return { success: false, error: "Game not found." };
+  }
+
+  // Possession carries the offense/defense assignment with it.
+  const after: Record<string, unknown> = { ...changes };
+  if (changes.possession_side) {
+    after.offense_side = changes.possession_side;
+    after.defense_side = otherSide(changes.possession_side);
+  }
+
+  const diff: Record<string, { before: unknown; after: unknown }> = {};
+  for (const [field, value] of Object.entries(after)) {
+    const previous = (before as Record<string, unknown>)[field];
+    if (previous !== value) diff[field] = { before: previous ?? null, after: value };
+  }
+
+  if (Object.keys(diff).length === 0) {
+    return { success: false, error: "Nothing to change." };
+  }
+
+  const { data: updatedGame, error } = await supabase
+    .from("games")
+    .update(Object.fromEntries(Object.entries(diff).map(([field, change]) => [field, change.after])))
+    .eq("id", gameId)
+    .select(
+      "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq, current_question_id, kickoff_type, overtime_rule, overtime_period, overtime_possessions, winner_side, timeouts_home, timeouts_away, clock_stopped, play_clock_deadline, play_seed_hash, playbook_home, playbook_away, call_mode_home, call_mode_away, captain_home, captain_away, answer_rule_home, answer_rule_away",
+    )
+    .single();
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await logGameEvent(gameId, "ref_adjustment", { reason: reason.trim(), changes: diff });
+
+  return { success: true, game: updatedGame as GameState };
+}
+
 export async function resetDriveAction(
   gameId: string,
-  requesterId: string,
   opts?: { possession?: "home" | "away"; yardLine?: number },
 ): Promise<{ success: boolean; error?: string; game?: GameState }> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: requester } = await supabase
@@ -324,10 +814,10 @@ export async function resetDriveAction(
     .eq("id", gameId)
     .maybeSingle();
 
-  const possession = opts?.possession ?? game?.possession_side ?? "home";
+  const possession = (opts?.possession ?? game?.possession_side ?? "home") as "home" | "away";
   const offense_side = possession;
-  const defense_side = offense_side === "home" ? "away" : "home";
-  const yard_line = opts?.yardLine ?? 25;
+  const defense_side = otherSide(offense_side);
+  const yard_line = opts?.yardLine ?? spotFromOwnGoal(possession, KICKOFF_TOUCHBACK_SPOT);
 
   const { error } = await supabase
     .from("games")
@@ -341,6 +831,10 @@ export async function resetDriveAction(
       offense_side,
       defense_side,
       current_play_seq: 1,
+      current_question_id: null,
+      kickoff_type: null,
+      clock_stopped: false,
+      play_clock_deadline: playClockDeadline(),
     })
     .eq("id", gameId);
 
@@ -350,6 +844,8 @@ export async function resetDriveAction(
 
   // Clear any existing play calls for a clean drive start
   await supabase.from("play_calls").delete().eq("game_id", gameId);
+  await supabase.from("play_call_votes").delete().eq("game_id", gameId);
+  await supabase.from("play_answers").delete().eq("game_id", gameId).is("play_id", null);
 
   await logGameEvent(gameId, "drive_reset", {
     possession_side: possession,
@@ -359,10 +855,103 @@ export async function resetDriveAction(
   const { data: updatedGame } = await supabase
     .from("games")
     .select(
-      "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq",
+      "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq, current_question_id, kickoff_type, overtime_rule, overtime_period, overtime_possessions, winner_side, timeouts_home, timeouts_away, clock_stopped, play_clock_deadline, play_seed_hash, playbook_home, playbook_away, call_mode_home, call_mode_away, captain_home, captain_away, answer_rule_home, answer_rule_away",
     )
     .eq("id", gameId)
     .single();
 
   return { success: true, game: updatedGame as GameState };
 }
+
+// Folds the whole event log into a scoreboard and compares it with the games row, along with any resolution whose
+// logged snapshot doesn't match its own payload. With `repair`, the ref can overwrite the row with the replayed state;
+// the current down then restarts from the play call.
+export async function checkReplayDriftAction(
+  gameId: string,
+  opts?: { repair?: boolean },
+): Promise<{
+  success: boolean;
+  error?: string;
+  drift?: ReplayDrift;
+  replayed?: ReplayState;
+  mismatches?: ReplayMismatch[];
+}> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can replay the event log." };
+  }
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("*")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (!game) {
+    return { success: false, error: "Game not found." };
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from("game_events")
+    .select("type, payload")
+    .eq("game_id", gameId)
+    .order("created_at", { ascending: true });
+
+  if (eventsError) {
+    return { success: false, error: eventsError.message };
+  }
+
+  const { state: replayed, mismatches } = replayGameLog(events ?? []);
+  const drift = replayDrift(replayed, game);
+
+  if (!opts?.repair || Object.keys(drift).length === 0) {
+    return { success: true, drift, replayed, mismatches };
+  }
+
+  const subphase = replayed.phase === "drive" ? "play_call" : replayed.phase === "conversion" ? "choice" : null;
+  const { error } = await supabase
+    .from("games")
+    .update({
+      ...replayed,
+      play_subphase: subphase,
+      current_question_id: null,
+      play_clock_deadline: subphase ? playClockDeadline() : null,
+    })
+    .eq("id", gameId);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  await supabase
+    .from("play_calls")
+    .delete()
+    .eq("game_id", gameId)
+    .eq("seq", game.current_play_seq ?? 1);
+  await supabase
+    .from("play_call_votes")
+    .delete()
+    .eq("game_id", gameId)
+    .eq("seq", game.current_play_seq ?? 1);
+  await supabase
+    .from("play_answers")
+    .delete()
+    .eq("game_id", gameId)
+    .eq("seq", game.current_play_seq ?? 1)
+    .is("play_id", null);
+
+  await logGameEvent(gameId, "replay_repaired", { drift, state: replayed });
+
+  return { success: true, drift, replayed, mismatches };
+}
@@ -2,6 +2,7 @@
 
 import { randomBytes } from "crypto";
 
+import { endSession, NOT_SIGNED_IN, sessionPlayerId, startSession } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
 
 type ActionResult =
@@ -78,6 +79,8 @@ export async function createLobbyAction(displayName: string): Promise<ActionResu
   // Set host id on the game
   await supabase.from("games").update({ host_player_id: player.id }).eq("id", game.id);
 
+  await startSession({ playerId: player.id, gameId: game.id });
+
   return { success: true, gameId: game.id, code: game.code, playerId: player.id };
 }
 
@@ -129,15 +132,19 @@ export async function joinLobbyAction(
     };
   }
 
+  await startSession({ playerId: player.id, gameId: game.id });
+
   return { success: true, gameId: game.id, code: game.code, playerId: player.id };
 }
 
 export async function updatePlayerSideAction(
   playerId: string,
   gameId: string,
-  requesterId: string,
   side: "home" | "away" | null,
 ): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: host } = await supabase
@@ -168,10 +175,12 @@ export async function updatePlayerSideAction(
 
 export async function updateTeamNamesAction(
   gameId: string,
-  requesterId: string,
   homeName: string,
   awayName: string,
 ): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: host } = await supabase
@@ -202,7 +211,10 @@ export async function updateTeamNamesAction(
   return { success: true, gameId, code: "", playerId: "" };
 }
 
-export async function startGameAction(gameId: string, requesterId: string): Promise<ActionResult> {
+export async function startGameAction(gameId: string): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: gameRow } = await supabase
@@ -274,7 +286,10 @@ export async function startGameAction(gameId: string, requesterId: string): Prom
   return { success: true, gameId, code: "", playerId: "" };
 }
 
-export async function leaveLobbyAction(playerId: string, gameId: string): Promise<ActionResult> {
+export async function leaveLobbyAction(gameId: string): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: player } = await supabase.from("players").select("role").eq("id", playerId).eq("game_id", gameId).single();
@@ -285,6 +300,8 @@ export async function leaveLobbyAction(playerId: string, gameId: string): Promis
     return { success: false, error: error.message };
   }
 
+  await endSession();
+
   // If host left, assign next earliest player as host.
   if (player?.role === "ref") {
     const { data: nextHost } = await supabase
@@ -304,7 +321,10 @@ export async function leaveLobbyAction(playerId: string, gameId: string): Promis
   return { success: true, gameId, code: "", playerId };
 }
 
-export async function setReadyAction(playerId: string, gameId: string, ready: boolean): Promise<ActionResult> {
+export async function setReadyAction(gameId: string, ready: boolean): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { error } = await supabase.from("players").update({ ready }).eq("id", playerId).eq("game_id", gameId);
@@ -316,11 +336,10 @@ export async function setReadyAction(playerId: string, gameId: string, ready: bo
   return { success: true, gameId, code: "", playerId };
 }
 
-export async function kickPlayerAction(
-  requesterId: string,
-  playerId: string,
-  gameId: string,
-): Promise<ActionResult> {
+export async function kickPlayerAction(playerId: string, gameId: string): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: host } = await supabase
@@ -345,11 +364,10 @@ export async function kickPlayerAction(
   return { success: true, gameId, code: "", playerId };
 }
 
-export async function setLobbyLockedAction(
-  requesterId: string,
-  gameId: string,
-  locked: boolean,
-): Promise<ActionResult> {
+export async function setLobbyLockedAction(gameId: string, locked: boolean): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: host } = await supabase
@@ -1,76 +1,453 @@
 "use server";
 
-import { logGameEvent } from "@/app/actions/events";
+import {
+  advanceBall,
+  clampToField,
+  firstDownDistance,
+  KICKOFF_SPOT,
+  KICKOFF_TOUCHBACK_SPOT,
+  otherSide,
+  reachedEndZone,
+  spotFromOwnGoal,
+  yardsGained,
+} from "@/lib/fieldPosition";
+import type { Side } from "@/lib/fieldPosition";
+import {
+  advanceClock,
+  clockBurnForPlay,
+  PLAY_CLOCK_SECONDS,
+  playClockDeadline,
+  playClockExpired,
+  QUARTER_SECONDS,
+  runOffClock,
+  TIMEOUTS_PER_HALF,
+} from "@/lib/gameClock";
+import type { ClockAdvance } from "@/lib/gameClock";
+import { logGameEvent } from "@/lib/gameEvents";
+import { pickReplayState } from "@/lib/gameReplay";
+import { overtimeFromGame, overtimePossession, overtimeQuarter, settleGame } from "@/lib/overtime";
+import type { OvertimeRule, Settlement } from "@/lib/overtime";
+import { describePenalty, enforcePenalty, PENALTY_TYPES } from "@/lib/penalties";
+import type { PenaltyAgainst, PenaltyEnforcement, PenaltyType } from "@/lib/penalties";
+import { findDefensePlay, findOffensePlay, inPlaybook, isKickPlay, playbookFor } from "@/lib/playbook";
+import type { TeamPlaybook } from "@/lib/playbook";
+import { kickoffBy, resolvePlay, tryLine } from "@/lib/playEngine";
+import { createPlaySeed, currentPlaySeed, PLAY_STREAMS } from "@/lib/playSeed";
+import { claimGameRng, createRng, rngPayload, rollByDifficulty, rollRange } from "@/lib/rng";
+import type { Rng } from "@/lib/rng";
+import { NOT_SIGNED_IN, sessionPlayerId } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
+import {
+  answerRuleFor,
+  callModeFor,
+  effectiveCaptain,
+  gradeSide,
+  rotationCaller,
+  sideAnswerIndex,
+  tallyVotes,
+} from "@/lib/teamRoles";
+import type { CallMode, TeamVote } from "@/lib/teamRoles";
 
 type ActionResult =
   | { success: true; message?: string; game?: Record<string, unknown> | null; play?: Record<string, unknown> | null }
   | { success: false; error: string };
 
-const randomInt = (min: number, max: number) => Math.floor(Math.random() * (max - min + 1)) + min;
-
-const rollByDifficulty = (difficulty: string) => {
-  switch (difficulty) {
-    case "easy":
-      return randomInt(1, 4);
-    case "medium":
-      return randomInt(1, 4) + randomInt(1, 4);
-    case "hard":
-      return randomInt(1, 10);
-    case "hail_mary":
-      return randomInt(1, 20);
-    default:
-      return randomInt(1, 4);
+const PAT_ODDS = 94;
+
+// Each half (and each overtime coin toss) starts with a fresh set of timeouts.
+const TIMEOUT_RESET = { timeouts_home: TIMEOUTS_PER_HALF, timeouts_away: TIMEOUTS_PER_HALF };
+
+// Everything a resolved play can change on `games`, stored on the `plays` row so the ref can undo it.
+const PRE_PLAY_COLUMNS =
+  "status, phase, quarter, clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, current_play_seq, clock_stopped, timeouts_home, timeouts_away, second_half_kickoff_side, kickoff_type, overtime_period, overtime_possessions, winner_side, toss_result, toss_winner_side, toss_choice";
+
+const nextSubphase = (phase: string) => (phase === "drive" ? "play_call" : phase === "conversion" ? "choice" : null);
+
+// Subphases that run on the play clock, and what a side gets when it lets the clock run out on its call.
+// The try choice after a touchdown and the kick return's question are on the clock too.
+const PLAY_CLOCK_SUBPHASES = ["play_call", "question", "rolls", "rolls_done", "choice", "kick_return"];
+const DEFAULT_CALLS = { offense: "run", defense: "run_stop" };
+
+// A side that dropped the default call from its playbook gets the first play it kept.
+const defaultCall = (book: TeamPlaybook, role: "offense" | "defense") => {
+  const kept = role === "offense" ? book.offense : book.defense;
+  return kept.includes(DEFAULT_CALLS[role]) ? DEFAULT_CALLS[role] : (kept[0] ?? DEFAULT_CALLS[role]);
+};
+
+const deadlineFor = (subphase: string | null) =>
+  subphase && PLAY_CLOCK_SUBPHASES.includes(subphase) ? playClockDeadline() : null;
+
+async function logClockEvents(
+  gameId: string,
+  quarter: number,
+  clock: ClockAdvance,
+  scoreHome: number,
+  scoreAway: number,
+  secondHalf: { kicking_side: string; receiving_side: string; yard_line: number },
+) {
+  if (clock.quarterEnded) {
+    await logGameEvent(gameId, "quarter_ended", {
+      quarter,
+      score_home: scoreHome,
+      score_away: scoreAway,
+      halftime: clock.halftime,
+    });
+  }
+  if (clock.halftime) {
+    await logGameEvent(gameId, "halftime", { score_home: scoreHome, score_away: scoreAway, ...secondHalf });
+  }
+}
+
+// Columns that follow a settlement: the final whistle, a fresh overtime coin toss, or the next college-style series.
+const settlementColumns = (settlement: Settlement): { phase: string; columns: Record<string, unknown> } => {
+  if (settlement.kind === "final") {
+    return { phase: "finished", columns: { status: "completed", winner_side: settlement.winner } };
   }
+  if (settlement.kind === "overtime") {
+    return {
+      phase: "coin_toss",
+      columns: {
+        quarter: overtimeQuarter(settlement.period),
+        clock_seconds: QUARTER_SECONDS,
+        overtime_period: settlement.period,
+        overtime_possessions: 0,
+        ...TIMEOUT_RESET,
+        possession_side: null,
+        offense_side: null,
+        defense_side: null,
+        down: 1,
+        distance: 10,
+        yard_line: 50,
+        toss_result: null,
+        toss_winner_side: null,
+        toss_choice: null,
+      },
+    };
+  }
+  const field = overtimePossession(settlement.side);
+  return {
+    phase: "drive",
+    columns: {
+      quarter: overtimeQuarter(settlement.period),
+      overtime_period: settlement.period,
+      overtime_possessions: settlement.possessions,
+      possession_side: field.possession,
+      offense_side: field.offenseSide,
+      defense_side: field.defenseSide,
+      down: field.down,
+      distance: field.distance,
+      yard_line: field.yardLine,
+    },
+  };
 };
 
-const matchupMod = (offense: string, defense: string, offenseCorrect: boolean) => {
-  const o = offense.toLowerCase();
-  const d = defense.toLowerCase();
-  let mod = 0;
-  let turnoverChance = false;
-
-  if (o.includes("run")) {
-    if (d.includes("run stop")) mod = randomInt(-3, -1);
-    else if (d.includes("pass")) mod = randomInt(2, 4);
-    else if (d.includes("blitz")) mod = offenseCorrect ? randomInt(3, 5) : randomInt(-3, -1);
-  } else if (o.includes("screen")) {
-    if (d.includes("blitz")) mod = offenseCorrect ? randomInt(4, 6) : randomInt(-2, 0);
-    else mod = randomInt(0, 2);
-  } else if (o.includes("deep") || o.includes("hail")) {
-    if (d.includes("pass")) mod = randomInt(-5, -2);
-    else if (d.includes("blitz")) mod = offenseCorrect ? randomInt(4, 7) : randomInt(-6, -3);
-    turnoverChance = true;
-  } else if (o.includes("pass")) {
-    if (d.includes("pass")) mod = randomInt(-3, -1);
-    else if (d.includes("run")) mod = randomInt(2, 4);
-    else if (d.includes("blitz")) mod = offenseCorrect ? randomInt(3, 5) : randomInt(-4, -2);
-  } else if (o.includes("trick")) {
-    mod = randomInt(-2, 6);
-  }
-
-  return { mod, turnoverChance };
+async function logPenalty(
+  gameId: string,
+  seq: number,
+  source: "play_clock" | "roll" | "ref",
+  type: PenaltyType,
+  against: PenaltyAgainst,
+  side: string,
+  enforcement: PenaltyEnforcement,
+) {
+  await logGameEvent(gameId, "penalty", {
+    seq,
+    source,
+    penalty: type,
+    against,
+    side,
+    yards: enforcement.yards,
+    half_the_distance: enforcement.halfTheDistance,
+    automatic_first_down: against === "defense" && enforcement.firstDown,
+    down: enforcement.down,
+    distance: enforcement.distance,
+    yard_line: enforcement.yardLine,
+  });
+}
+
+async function logSettlement(
+  gameId: string,
+  settlement: Settlement | null,
+  scoreHome: number,
+  scoreAway: number,
+  rule: OvertimeRule,
+) {
+  if (!settlement) return;
+  if (settlement.kind === "final") {
+    await logGameEvent(gameId, "game_finished", {
+      score_home: scoreHome,
+      score_away: scoreAway,
+      winner_side: settlement.winner,
+    });
+  } else if (settlement.kind === "overtime") {
+    await logGameEvent(gameId, "overtime_started", {
+      period: settlement.period,
+      rule,
+      score_home: scoreHome,
+      score_away: scoreAway,
+    });
+  } else {
+    await logGameEvent(gameId, "overtime_possession", {
+      period: settlement.period,
+      possession: settlement.possessions + 1,
+      side: settlement.side,
+      score_home: scoreHome,
+      score_away: scoreAway,
+    });
+  }
+}
+
+export type KickoffType = "normal" | "squib" | "onside";
+
+const KICKOFF_TYPES: KickoffType[] = ["normal", "squib", "onside"];
+
+// The return team's question gets harder the more the kicking team gambles.
+const KICKOFF_DIFFICULTY: Record<KickoffType, string> = { normal: "medium", squib: "easy", onside: "hard" };
+
+const resolveKickoff = (rng: Rng, kickingSide: Side, kickType: KickoffType, returnCorrect: boolean, roll: number) => {
+  const receivingSide = otherSide(kickingSide);
+  const kickSpot = spotFromOwnGoal(kickingSide, KICKOFF_SPOT);
+
+  if (kickType === "onside") {
+    // Short kick the kicking team can recover; a sharp return team rarely lets it happen.
+    const kickYards = rng.int(10, 14);
+    const recovered = returnCorrect ? roll <= 3 : roll <= 12;
+    return {
+      kickYards,
+      returnYards: 0,
+      touchback: false,
+      onsideRecovered: recovered,
+      touchdown: false,
+      possession: recovered ? kickingSide : receivingSide,
+      yardLine: advanceBall(kickingSide, kickSpot, kickYards),
+    };
+  }
+
+  const kickYards = kickType === "squib" ? rng.int(35, 50) : rng.int(55, 70);
+  const landing = advanceBall(kickingSide, kickSpot, kickYards);
+
+  // Deep kicks into the end zone come out to the 25 unless the return team answered and rolled well.
+  if (kickType === "normal" && reachedEndZone(kickingSide, landing) && (!returnCorrect || roll < 10)) {
+    return {
+      kickYards,
+      returnYards: 0,
+      touchback: true,
+      onsideRecovered: false,
+      touchdown: false,
+      possession: receivingSide,
+      yardLine: spotFromOwnGoal(receivingSide, KICKOFF_TOUCHBACK_SPOT),
+    };
+  }
+
+  const catchSpot = clampToField(landing);
+  let returnYards: number;
+  if (kickType === "squib") {
+    returnYards = returnCorrect ? rng.int(5, 12) + Math.floor(roll / 4) : rng.int(0, 6);
+  } else if (returnCorrect && roll === 20) {
+    returnYards = 100; // house call
+  } else {
+    returnYards = returnCorrect ? rng.int(15, 25) + roll : rng.int(8, 18) + Math.floor(roll / 4);
+  }
+  const returnEnd = clampToField(advanceBall(receivingSide, catchSpot, returnYards));
+
+  return {
+    kickYards,
+    returnYards: yardsGained(receivingSide, catchSpot, returnEnd),
+    touchback: false,
+    onsideRecovered: false,
+    touchdown: reachedEndZone(receivingSide, returnEnd),
+    possession: receivingSide,
+    yardLine: returnEnd,
+  };
 };
 
-export async function submitPlayCallAction(
+// Offense difficulty picks map onto the questions table's easy/medium/hard buckets.
+const questionDifficulty = (difficulty: string) => {
+  if (difficulty === "hail_mary") return "hard";
+  return ["easy", "medium", "hard"].includes(difficulty) ? difficulty : "easy";
+};
+
+const pickPlayQuestion = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
   gameId: string,
+  difficulty: string,
+  rng: Rng,
+): Promise<string | null> => {
+  const { data: usedPlays } = await supabase.from("plays").select("question_id").eq("game_id", gameId);
+  const used = new Set((usedPlays ?? []).map((p) => p.question_id).filter(Boolean));
+
+  const { data: matching } = await supabase
+    .from("questions")
+    .select("id")
+    .eq("difficulty", questionDifficulty(difficulty))
+    .order("id")
+    .limit(500);
+  let candidates = (matching ?? []).map((q) => q.id).filter((id) => !used.has(id));
+
+  // Fall back to any unused question (then any question at all) if the difficulty bucket is exhausted.
+  if (candidates.length === 0) {
+    const { data: anyDifficulty } = await supabase.from("questions").select("id").order("id").limit(500);
+    const all = (anyDifficulty ?? []).map((q) => q.id);
+    candidates = all.filter((id) => !used.has(id));
+    if (candidates.length === 0) candidates = all;
+  }
+
+  if (candidates.length === 0) return null;
+  return rng.pick(candidates);
+};
+
+// Both calls are in: serve the play's question and restart the play clock for answers.
+async function lockPlayCalls(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  seq: number,
+  offenseDifficulty: string,
+): Promise<{ game: Record<string, unknown> | null; error?: string }> {
+  const { seed, seedHash } = await currentPlaySeed(supabase, gameId);
+  const rng = createRng(seed, PLAY_STREAMS.question);
+  const questionId = await pickPlayQuestion(supabase, gameId, offenseDifficulty, rng);
+  if (!questionId) {
+    return { game: null, error: "No questions available. Import questions first." };
+  }
+
+  const { data: gameRow } = await supabase
+    .from("games")
+    .update({ play_subphase: "question", current_question_id: questionId, play_clock_deadline: playClockDeadline() })
+    .eq("id", gameId)
+    .select()
+    .single();
+  await logGameEvent(gameId, "play_calls_locked", {
+    seq,
+    offense_ready: true,
+    defense_ready: true,
+    question_id: questionId,
+    seed_hash: seedHash,
+    ...rngPayload(rng),
+  });
+  return { game: gameRow };
+}
+
+async function startRolls(supabase: ReturnType<typeof createSupabaseServerClient>, gameId: string, seq: number) {
+  await supabase
+    .from("games")
+    .update({ play_subphase: "rolls", play_clock_deadline: playClockDeadline() })
+    .eq("id", gameId);
+  await logGameEvent(gameId, "rolls_started", { seq });
+}
+
+async function completeRolls(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  seq: number,
+  offenseRoll: number,
+  defenseRoll: number,
+) {
+  await supabase
+    .from("games")
+    .update({ play_subphase: "rolls_done", play_clock_deadline: playClockDeadline() })
+    .eq("id", gameId);
+  await logGameEvent(gameId, "rolls_completed", {
+    seq,
+    offense_roll: offenseRoll,
+    defense_roll: defenseRoll,
+  });
+}
+
+// A side's players in join order, refs excluded.
+const sideRoster = async (supabase: ReturnType<typeof createSupabaseServerClient>, gameId: string, side: string) => {
+  const { data } = await supabase
+    .from("players")
+    .select("id")
+    .eq("game_id", gameId)
+    .eq("side", side)
+    .neq("role", "ref")
+    .order("created_at", { ascending: true });
+  return (data ?? []).map((p) => p.id);
+};
+
+// The one teammate allowed to call this play: the captain (the first to join until one is named),
+// or in rotation the next player in join order for each snap of the game.
+const designatedCaller = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  game: { captain_home?: string | null; captain_away?: string | null },
+  side: string,
+  mode: CallMode,
+) => {
+  const roster = await sideRoster(supabase, gameId, side);
+  if (mode === "captain") return effectiveCaptain(side === "home" ? game.captain_home : game.captain_away, roster);
+  const { count } = await supabase
+    .from("plays")
+    .select("id", { count: "exact", head: true })
+    .eq("game_id", gameId)
+    .eq("voided", false);
+  return rotationCaller(roster, count ?? 0);
+};
+
+const sideVotes = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  seq: number,
+  role: "offense" | "defense",
+): Promise<TeamVote[]> => {
+  const { data } = await supabase
+    .from("play_call_votes")
+    .select("player_id, play_call, difficulty, created_at")
+    .eq("game_id", gameId)
+    .eq("seq", seq)
+    .eq("role", role);
+  return data ?? [];
+};
+
+// Whether the caller's ballot for this snap is on file as the call they just made.
+const voteCounted = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  seq: number,
   playerId: string,
+  call: { play_call: string; difficulty: string },
+) => {
+  const { data } = await supabase
+    .from("play_call_votes")
+    .select("play_call, difficulty")
+    .eq("game_id", gameId)
+    .eq("seq", seq)
+    .eq("player_id", playerId)
+    .maybeSingle();
+  return data?.play_call === call.play_call && data?.difficulty === call.difficulty;
+};
+
+export async function submitPlayCallAction(
+  gameId: string,
   role: "offense" | "defense",
   playCall: string,
   difficulty: string,
 ): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: game, error: gameError } = await supabase
     .from("games")
-    .select("phase, play_subphase, offense_side, defense_side, current_play_seq")
+    .select(
+      "phase, play_subphase, offense_side, defense_side, down, current_play_seq, play_clock_deadline, playbook_home, playbook_away, call_mode_home, call_mode_away, captain_home, captain_away",
+    )
     .eq("id", gameId)
     .single();
   if (gameError || !game) return { success: false, error: "Game not found." };
-  // Allow late submissions if we're still in drive and question phase but this side hasn't submitted yet.
-  if (game.phase !== "drive" || !["play_call", "question", null].includes(game.play_subphase ?? "")) {
+  if (!["drive", "conversion"].includes(game.phase) || game.play_subphase !== "play_call") {
     return { success: false, error: "Not accepting play calls right now." };
   }
+  if (playClockExpired(game.play_clock_deadline)) {
+    await enforcePlayClockAction(gameId);
+    return { success: false, error: "Play clock expired. A default call was locked in." };
+  }
+  const play = role === "offense" ? findOffensePlay(playCall) : findDefensePlay(playCall);
+  if (!play) return { success: false, error: "Unknown play call." };
+  if (isKickPlay(play) && game.down !== 4) {
+    return { success: false, error: "Punts and field goals are fourth-down calls." };
+  }
 
   const { data: player } = await supabase
     .from("players")
@@ -84,30 +461,100 @@ export async function submitPlayCallAction(
   if (player.side !== expectedSide) {
     return { success: false, error: "You are not on this side for the current play." };
   }
+  if (!inPlaybook(playbookFor(game, player.side), role, play)) {
+    return { success: false, error: "That play isn't in your playbook." };
+  }
 
   const currentSeq = game.current_play_seq ?? 1;
+  let call = { play_call: play.id, difficulty };
+  const mode = callModeFor(game, player.side);
 
-  const { error: upsertError } = await supabase.from("play_calls").upsert(
-    {
-      game_id: gameId,
-      player_id: playerId,
-      side: player.side,
-      role,
-      play_call: playCall,
-      difficulty,
-      seq: currentSeq,
-    },
-    { onConflict: "game_id,player_id,seq" },
-  );
+  // A side's call stands once it's in, whoever made it; it can't be changed after seeing the other side's.
+  const { data: sideCall } = await supabase
+    .from("play_calls")
+    .select("id")
+    .eq("game_id", gameId)
+    .eq("seq", currentSeq)
+    .eq("role", role)
+    .maybeSingle();
+  if (sideCall) {
+    if (mode === "vote" && (await voteCounted(supabase, gameId, currentSeq, playerId, call))) {
+      return { success: true, message: "Vote in. Your side's call is locked." };
+    }
+    return { success: false, error: "Your side's call is already in." };
+  }
+
+  if (mode === "vote") {
+    // Every teammate's vote is kept; the side's call is written once the vote is decided. Voting the same call
+    // twice is a no-op, so a retried or raced ballot that already counted still succeeds.
+    const { error: voteError } = await supabase.from("play_call_votes").upsert(
+      {
+        game_id: gameId,
+        player_id: playerId,
+        side: player.side,
+        role,
+        play_call: play.id,
+        difficulty,
+        seq: currentSeq,
+      },
+      { onConflict: "game_id,player_id,seq" },
+    );
+    if (voteError && !(await voteCounted(supabase, gameId, currentSeq, playerId, call))) {
+      return { success: false, error: voteError.message };
+    }
+    const roster = await sideRoster(supabase, gameId, player.side);
+    const tally = tallyVotes(await sideVotes(supabase, gameId, currentSeq, role), roster.length);
+    if (!tally.decided || !tally.leader) {
+      await logGameEvent(gameId, "play_call_vote", {
+        seq: currentSeq,
+        role,
+        side: player.side,
+        counts: tally.counts,
+        roster: roster.length,
+      });
+      return { success: true, message: "Vote in. Waiting for teammates." };
+    }
+    call = tally.leader;
+  } else {
+    const callerId = await designatedCaller(supabase, gameId, game, player.side, mode);
+    if (callerId && callerId !== playerId) {
+      return {
+        success: false,
+        error: mode === "captain" ? "Only your captain calls plays." : "It's a teammate's turn to call the play.",
+      };
+    }
+  }
+
+  // Insert, not upsert: if a teammate's call landed first, the unique key on (game_id, seq, role) keeps theirs.
+  const { error: insertError } = await supabase.from("play_calls").insert({
+    game_id: gameId,
+    player_id: playerId,
+    side: player.side,
+    role,
+    play_call: call.play_call,
+    difficulty: call.difficulty,
+    seq: currentSeq,
+  });
 
-  if (upsertError) {
-    return { success: false, error: upsertError.message };
+  if (insertError) {
+    // Two teammates can both cast the deciding vote; whoever loses the insert still had their ballot counted.
+    if (
+      insertError.code === "23505" &&
+      mode === "vote" &&
+      (await voteCounted(supabase, gameId, currentSeq, playerId, { play_call: play.id, difficulty }))
+    ) {
+      return { success: true, message: "Vote in. Your side's call is locked." };
+    }
+    return {
+      success: false,
+      error: insertError.code === "23505" ? "Your side's call is already in." : insertError.message,
+    };
   }
 
   // Check if both sides submitted
   const { data: calls } = await supabase
     .from("play_calls")
-    .select("role")
+    .select("role, difficulty")
     .eq("game_id", gameId)
     .eq("seq", currentSeq);
 
@@ -118,18 +565,14 @@ export async function submitPlayCallAction(
   let updatedGame: Record<string, unknown> | null = null;
 
   if (offenseDone && defenseDone) {
-    const { data: gameRow } = await supabase
-      .from("games")
-      .update({ play_subphase: "question" })
-      .eq("id", gameId)
-      .select()
-      .single();
-    updatedGame = gameRow;
-    await logGameEvent(gameId, "play_calls_locked", {
-      seq: currentSeq,
-      offense_ready: offenseDone,
-      defense_ready: defenseDone,
-    });
+    const locked = await lockPlayCalls(
+      supabase,
+      gameId,
+      currentSeq,
+      calls?.find((c) => c.role === "offense")?.difficulty ?? "easy",
+    );
+    if (locked.error) return { success: false, error: locked.error };
+    updatedGame = locked.game;
   } else {
     await logGameEvent(gameId, "play_call_submitted", {
       seq: currentSeq,
@@ -150,24 +593,41 @@ export async function submitPlayCallAction(
 
 export async function submitQuestionAnswerAction(
   gameId: string,
-  playerId: string,
-  isCorrect: boolean,
+  choiceIndex: number,
   forSide?: "offense" | "defense", // allow ref to answer on behalf
-  manualRoll?: number,
 ): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: game, error: gameError } = await supabase
     .from("games")
     .select(
-      "phase, play_subphase, offense_side, defense_side, down, distance, yard_line, score_home, score_away, current_play_seq",
+      "phase, play_subphase, offense_side, defense_side, down, distance, yard_line, score_home, score_away, current_play_seq, current_question_id, play_clock_deadline, answer_rule_home, answer_rule_away, captain_home, captain_away",
     )
     .eq("id", gameId)
     .single();
   if (gameError || !game) return { success: false, error: "Game not found." };
-  if (game.phase !== "drive" || game.play_subphase !== "question") {
+  if (!["drive", "conversion"].includes(game.phase) || game.play_subphase !== "question") {
     return { success: false, error: "Not accepting answers right now." };
   }
+  if (playClockExpired(game.play_clock_deadline)) {
+    await enforcePlayClockAction(gameId);
+    return { success: false, error: "Play clock expired. Unanswered questions count as incorrect." };
+  }
+  if (!game.current_question_id) return { success: false, error: "No question for this play." };
+
+  const { data: question } = await supabase
+    .from("questions")
+    .select("correct_index, choices")
+    .eq("id", game.current_question_id)
+    .single();
+  if (!question) return { success: false, error: "Question missing." };
+  if (!Number.isInteger(choiceIndex) || choiceIndex < 0 || choiceIndex >= (question.choices?.length ?? 0)) {
+    return { success: false, error: "Invalid answer choice." };
+  }
+  const isCorrect = choiceIndex === question.correct_index;
 
   const { data: player } = await supabase
     .from("players")
@@ -185,38 +645,97 @@ export async function submitQuestionAnswerAction(
   const seq = game.current_play_seq ?? 1;
   const { data: calls } = await supabase
     .from("play_calls")
-    .select("id, role, play_call, difficulty, answer, roll, ready_after_roll")
+    .select("id, role, play_call, difficulty, answer, roll, ready_after_roll, side, player_id")
     .eq("game_id", gameId)
     .eq("seq", seq);
 
   const offenseCall = calls?.find((c) => c.role === "offense");
   const defenseCall = calls?.find((c) => c.role === "defense");
-  const offensePlay = offenseCall?.play_call ?? "Run";
+  const offensePlay = offenseCall?.play_call ?? DEFAULT_CALLS.offense;
   const offenseDiff = offenseCall?.difficulty ?? "easy";
-  const defensePlay = defenseCall?.play_call ?? "Pass D";
+  const defensePlay = defenseCall?.play_call ?? "pass_d";
 
-  // Determine target role (allow ref to answer for either side)
+  // Players answer for their own side; only the ref can answer on either side's behalf.
   const targetRole =
-    forSide ??
+    (isRef ? forSide : undefined) ??
     (player.side === game.offense_side ? "offense" : player.side === game.defense_side ? "defense" : "offense");
 
   const existing = calls?.find((c) => c.role === targetRole);
+  const side = targetRole === "offense" ? game.offense_side : game.defense_side;
+  let sideCorrect: boolean | null = isCorrect;
+  let sideChoice: number | null = choiceIndex;
+
+  if (isRef) {
+    // The ref's answer stands for the whole side.
+    if (existing?.answer != null) {
+      return { success: false, error: "Answer already submitted for this side." };
+    }
+  } else {
+    // Every teammate answers once; the side's rule decides when their answers settle the side's result.
+    const { data: mine } = await supabase
+      .from("play_answers")
+      .select("id")
+      .eq("game_id", gameId)
+      .eq("seq", seq)
+      .eq("player_id", playerId)
+      .is("play_id", null)
+      .maybeSingle();
+    if (mine) return { success: false, error: "You already answered this play." };
+
+    await supabase.from("play_answers").insert({
+      game_id: gameId,
+      seq,
+      side,
+      role: targetRole,
+      player_id: playerId,
+      question_id: game.current_question_id,
+      answer_index: choiceIndex,
+      correct: isCorrect,
+    });
+    if (existing?.answer != null) {
+      return { success: true, message: "Answer recorded. Your side's result already stands." };
+    }
+
+    const { data: teammates } = await supabase
+      .from("play_answers")
+      .select("player_id, correct, answer_index")
+      .eq("game_id", gameId)
+      .eq("seq", seq)
+      .eq("role", targetRole)
+      .is("play_id", null)
+      .order("created_at", { ascending: true });
+    const roster = await sideRoster(supabase, gameId, side);
+    const captainId = effectiveCaptain(side === "home" ? game.captain_home : game.captain_away, roster);
+    sideCorrect = gradeSide(answerRuleFor(game, side), teammates ?? [], roster, captainId);
+    // Whoever settles the side, it is recorded as having answered what its rule stands on, not their pick.
+    sideChoice = sideAnswerIndex(answerRuleFor(game, side), teammates ?? [], roster, captainId);
+    if (sideCorrect === null) {
+      await logGameEvent(gameId, "answer_submitted", {
+        seq,
+        role: targetRole,
+        answered: teammates?.length ?? 0,
+        roster: roster.length,
+      });
+      return { success: true, message: "Answer in. Waiting for teammates." };
+    }
+  }
 
-  // Upsert the answer (roll handled later during roll phase)
+  // Record the side's result (roll handled later during roll phase)
   await supabase.from("play_calls").upsert(
     {
       game_id: gameId,
-      player_id: playerId,
-      side: player.side,
+      player_id: existing?.player_id ?? playerId,
+      side: existing?.side ?? player.side,
       role: targetRole,
       play_call: targetRole === "offense" ? offensePlay : defensePlay,
       difficulty: targetRole === "offense" ? offenseDiff : "n/a",
       seq,
-      answer: isCorrect,
+      answer: sideCorrect,
+      answer_index: sideChoice,
       roll: existing?.roll ?? null,
       ready_after_roll: existing?.ready_after_roll ?? false,
     },
-    { onConflict: "game_id,player_id,seq" },
+    { onConflict: "game_id,seq,role" },
   );
 
   const { data: answers } = await supabase
@@ -239,39 +758,41 @@ export async function submitQuestionAnswerAction(
   ) {
     await logGameEvent(gameId, "answer_submitted", {
       seq,
-      offense_answered: !!offenseAnswer?.answer,
-      defense_answered: !!defenseAnswer?.answer,
+      offense_answered: offenseAnswer?.answer != null,
+      defense_answered: defenseAnswer?.answer != null,
     });
-    return { success: true, message: "Answer recorded. Waiting for other side." };
+    return { success: true, message: "Answer locked in. Waiting for other side." };
   }
 
   // Move to rolls phase and emit event (rolls happen via separate action)
-  await supabase
-    .from("games")
-    .update({ play_subphase: "rolls" })
-    .eq("id", gameId);
-  await logGameEvent(gameId, "rolls_started", { seq });
+  await startRolls(supabase, gameId, seq);
 
   return { success: true, message: "Answers locked. Proceed to roll." };
 }
 
 export async function submitRollAction(
   gameId: string,
-  playerId: string,
   manualRoll?: number,
   forSide?: "offense" | "defense",
 ): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: game } = await supabase
     .from("games")
-    .select("phase, play_subphase, offense_side, defense_side, current_play_seq")
+    .select("phase, play_subphase, offense_side, defense_side, current_play_seq, play_clock_deadline")
     .eq("id", gameId)
     .single();
   if (!game) return { success: false, error: "Game not found." };
-  if (game.phase !== "drive" || game.play_subphase !== "rolls") {
+  if (!["drive", "conversion"].includes(game.phase) || game.play_subphase !== "rolls") {
     return { success: false, error: "Not accepting rolls right now." };
   }
+  if (playClockExpired(game.play_clock_deadline)) {
+    await enforcePlayClockAction(gameId);
+    return { success: false, error: "Play clock expired. The dice were rolled for you." };
+  }
 
   const { data: player } = await supabase
     .from("players")
@@ -280,6 +801,14 @@ export async function submitRollAction(
     .eq("game_id", gameId)
     .maybeSingle();
   if (!player) return { success: false, error: "Player not found." };
+  const isRef = player.role === "ref";
+  if (!isRef && player.side !== game.offense_side && player.side !== game.defense_side) {
+    return { success: false, error: "Not part of this play." };
+  }
+  // A hand-entered roll skips the committed seed, so only the ref may enter one.
+  if (!isRef && manualRoll !== undefined) {
+    return { success: false, error: "Only the ref can enter a roll." };
+  }
   const seq = game.current_play_seq ?? 1;
 
   const { data: calls } = await supabase
@@ -291,8 +820,9 @@ export async function submitRollAction(
   const offenseCall = calls?.find((c) => c.role === "offense");
   const defenseCall = calls?.find((c) => c.role === "defense");
 
+  // Players roll for their own side; only the ref can roll on either side's behalf.
   const targetRole =
-    forSide ??
+    (isRef ? forSide : undefined) ??
     (player.side === game.offense_side ? "offense" : player.side === game.defense_side ? "defense" : "offense");
   const existing = calls?.find((c) => c.role === targetRole);
 
@@ -301,18 +831,29 @@ export async function submitRollAction(
   }
 
   const offenseDiff = offenseCall?.difficulty ?? "easy";
-  const offensePlay = offenseCall?.play_call ?? "Run";
-  const defensePlay = defenseCall?.play_call ?? "Pass D";
+  const offensePlay = offenseCall?.play_call ?? DEFAULT_CALLS.offense;
+  const defensePlay = defenseCall?.play_call ?? "pass_d";
+
+  if (manualRoll !== undefined) {
+    const [min, max] = rollRange(targetRole === "offense" ? offenseDiff : "defense");
+    if (!Number.isInteger(manualRoll) || manualRoll < min || manualRoll > max) {
+      return { success: false, error: `Roll must be a whole number from ${min} to ${max}.` };
+    }
+  }
 
-  const rollVal =
-    manualRoll ??
-    (targetRole === "offense" ? rollByDifficulty(offenseDiff) : randomInt(1, 4));
+  let rollVal = manualRoll;
+  let rng: Rng | null = null;
+  if (rollVal === undefined) {
+    const { seed } = await currentPlaySeed(supabase, gameId);
+    rng = createRng(seed, targetRole === "offense" ? PLAY_STREAMS.offenseRoll : PLAY_STREAMS.defenseRoll);
+    rollVal = targetRole === "offense" ? rollByDifficulty(rng, offenseDiff) : rng.int(1, 4);
+  }
 
   await supabase.from("play_calls").upsert(
     {
       game_id: gameId,
-      player_id: playerId,
-      side: player.side,
+      player_id: existing?.player_id ?? playerId,
+      side: existing?.side ?? player.side,
       role: targetRole,
       play_call: targetRole === "offense" ? offensePlay : defensePlay,
       difficulty: targetRole === "offense" ? offenseDiff : "n/a",
@@ -321,7 +862,7 @@ export async function submitRollAction(
       roll: rollVal,
       ready_after_roll: existing?.ready_after_roll ?? false,
     },
-    { onConflict: "game_id,player_id,seq" },
+    { onConflict: "game_id,seq,role" },
   );
 
   const { data: updatedCalls } = await supabase
@@ -337,15 +878,11 @@ export async function submitRollAction(
     seq,
     offense_roll: offenseRoll,
     defense_roll: defenseRoll,
+    ...(rng ? { role: targetRole, ...rngPayload(rng) } : {}),
   });
 
   if (offenseRoll != null && defenseRoll != null) {
-    await supabase.from("games").update({ play_subphase: "rolls_done" }).eq("id", gameId);
-    await logGameEvent(gameId, "rolls_completed", {
-      seq,
-      offense_roll: offenseRoll,
-      defense_roll: defenseRoll,
-    });
+    await completeRolls(supabase, gameId, seq, offenseRoll, defenseRoll);
   }
 
   return { success: true, message: "Roll recorded." };
@@ -354,14 +891,36 @@ export async function submitRollAction(
 async function finalizePlayResolution(gameId: string, seq: number): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
 
+  // Both sides continuing and an expired play clock can all land here for the same snap; only the caller that
+  // moves it out of rolls_done resolves it.
+  const { data: claimed } = await supabase
+    .from("games")
+    .update({ play_subphase: "resolving", play_clock_deadline: null })
+    .eq("id", gameId)
+    .eq("current_play_seq", seq)
+    .eq("play_subphase", "rolls_done")
+    .select("id");
+  if (!claimed?.length) return { success: true, message: "Play already resolved." };
+  // Hands the snap back if it can't be resolved after all.
+  const release = () =>
+    supabase
+      .from("games")
+      .update({ play_subphase: "rolls_done", play_clock_deadline: playClockDeadline() })
+      .eq("id", gameId);
+
   const { data: game } = await supabase
     .from("games")
     .select(
-      "id, phase, play_subphase, offense_side, defense_side, down, distance, yard_line, score_home, score_away, current_play_seq",
+      "id, phase, play_subphase, quarter, clock_seconds, offense_side, defense_side, down, distance, yard_line, score_home, score_away, current_play_seq, current_question_id, second_half_kickoff_side, clock_stopped, overtime_rule, overtime_period, overtime_possessions, toss_winner_side, toss_choice, playbook_home, playbook_away",
     )
     .eq("id", gameId)
     .single();
-  if (!game) return { success: false, error: "Game not found." };
+  if (!game) {
+    await release();
+    return { success: false, error: "Game not found." };
+  }
+
+  const { data: preState } = await supabase.from("games").select(PRE_PLAY_COLUMNS).eq("id", gameId).single();
 
   const { data: calls } = await supabase
     .from("play_calls")
@@ -371,189 +930,893 @@ async function finalizePlayResolution(gameId: string, seq: number): Promise<Acti
 
   const offense = calls?.find((c) => c.role === "offense");
   const defense = calls?.find((c) => c.role === "defense");
-  if (!offense || !defense) return { success: false, error: "Missing play data." };
+  if (!offense || !defense) {
+    await release();
+    return { success: false, error: "Missing play data." };
+  }
 
-  const offensePlay = offense.play_call ?? "Run";
+  const { seed, seedHash } = await currentPlaySeed(supabase, gameId);
+  const rng = createRng(seed, PLAY_STREAMS.resolve);
+
+  const offensePlay = offense.play_call ?? DEFAULT_CALLS.offense;
   const offenseDiff = offense.difficulty ?? "easy";
-  const defensePlay = defense.play_call ?? "Pass D";
-  const dieOffense = offense.roll ?? rollByDifficulty(offenseDiff);
-  const dieDefense = defense.roll ?? randomInt(1, 4);
+  const defensePlay = defense.play_call ?? "pass_d";
+  const dieOffense = offense.roll ?? rollByDifficulty(createRng(seed, PLAY_STREAMS.offenseRoll), offenseDiff);
+  const dieDefense = defense.roll ?? createRng(seed, PLAY_STREAMS.defenseRoll).int(1, 4);
   const finalOffenseCorrect = offense.answer ?? false;
   const finalDefenseCorrect = defense.answer ?? false;
+  const isConversion = game.phase === "conversion";
 
-  const playLower = offensePlay.toLowerCase();
-  const isPassLike = playLower.includes("pass") || playLower.includes("screen") || playLower.includes("hail");
-  const isHail = playLower.includes("hail");
-  const rollDiff = dieDefense - dieOffense;
+  const overtime = overtimeFromGame(game);
+  const outcome = resolvePlay(
+    {
+      phase: game.phase,
+      quarter: game.quarter ?? 1,
+      clockSeconds: game.clock_seconds ?? QUARTER_SECONDS,
+      clockStopped: !!game.clock_stopped,
+      down: game.down,
+      distance: game.distance,
+      yardLine: game.yard_line,
+      offenseSide: game.offense_side as Side,
+      defenseSide: game.defense_side as Side,
+      scoreHome: game.score_home,
+      scoreAway: game.score_away,
+      secondHalfKickoffSide: (game.second_half_kickoff_side ?? "home") as Side,
+      overtime,
+    },
+    {
+      play: offensePlay,
+      difficulty: offenseDiff,
+      correct: finalOffenseCorrect,
+      roll: dieOffense,
+      risk: playbookFor(game, game.offense_side).risk[findOffensePlay(offensePlay)?.id ?? ""] ?? 0,
+    },
+    { play: defensePlay, difficulty: "n/a", correct: finalDefenseCorrect, roll: dieDefense },
+    rng,
+  );
+  const { clock, settlement } = outcome;
+  const { foul, penalty } = outcome.play;
+  const settled = settlement ? settlementColumns(settlement) : null;
+  const phase = settled?.phase ?? outcome.state.phase;
 
-  let yards: number;
+  const nextSeq = (game.current_play_seq ?? 1) + 1;
+  // This play's seed is revealed below; the next one is committed in the same update.
+  const nextSeedHash = await createPlaySeed(supabase, gameId);
+  const { data: updatedGame, error: gameUpdateError } = await supabase
+    .from("games")
+    .update({
+      play_subphase: nextSubphase(phase),
+      phase,
+      quarter: clock.quarter,
+      clock_seconds: clock.clockSeconds,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
+      down: outcome.state.down,
+      distance: outcome.state.distance,
+      yard_line: outcome.state.yardLine,
+      possession_side: outcome.state.possession,
+      offense_side: outcome.state.offenseSide,
+      defense_side: outcome.state.defenseSide,
+      score_home: outcome.state.scoreHome,
+      score_away: outcome.state.scoreAway,
+      current_play_seq: nextSeq,
+      current_question_id: null,
+      clock_stopped: false,
+      play_clock_deadline: deadlineFor(nextSubphase(phase)),
+      play_seed_hash: nextSeedHash,
+      ...(phase === "halftime" ? TIMEOUT_RESET : {}),
+      ...settled?.columns,
+    })
+    .eq("id", gameId)
+    .select()
+    .single();
 
-  if (isHail) {
-    // Hail Mary: big upside, modest downside unless defense dominates.
-    if (finalOffenseCorrect) {
-      yards = dieOffense >= 17 ? randomInt(30, 50) : randomInt(12, 24);
-    } else {
-      yards = 0; // treat as incomplete unless defense wins big below.
-    }
-  } else if (isPassLike) {
-    if (finalOffenseCorrect) {
-      yards = dieOffense + (offenseDiff === "hard" ? 3 : 1);
-    } else {
-      yards = 0; // incomplete by default
-    }
-  } else if (playLower.includes("run")) {
-    yards = finalOffenseCorrect ? dieOffense + 1 : -randomInt(1, 3);
-  } else {
-    yards = finalOffenseCorrect ? dieOffense : -randomInt(1, 2);
+  if (gameUpdateError) {
+    await release();
+    return { success: false, error: gameUpdateError.message };
   }
 
-  const { mod, turnoverChance } = matchupMod(offensePlay, defensePlay, finalOffenseCorrect);
+  // Clear out any play calls for the next sequence to avoid stale submissions carrying over.
+  await supabase.from("play_calls").delete().eq("game_id", gameId).eq("seq", nextSeq);
+  await supabase.from("play_call_votes").delete().eq("game_id", gameId).eq("seq", nextSeq);
+  await supabase.from("play_answers").delete().eq("game_id", gameId).is("play_id", null).eq("seq", nextSeq);
 
-  // Soften negative mods on failed passes unless defense is correct
-  let appliedMod = mod;
-  if (isPassLike && !finalOffenseCorrect && !finalDefenseCorrect) {
-    appliedMod = Math.max(0, mod);
+  const { data: playRow } = await supabase
+    .from("plays")
+    .insert({
+      game_id: gameId,
+      seq,
+      offense_side: game.offense_side,
+      defense_side: game.defense_side,
+      call_offense: offensePlay,
+      call_defense: defensePlay,
+      difficulty: offenseDiff,
+      question_id: game.current_question_id,
+      offense_roll: dieOffense,
+      defense_roll: dieDefense,
+      offense_correct: finalOffenseCorrect,
+      defense_correct: finalDefenseCorrect,
+      yards: outcome.play.yards,
+      turnover: outcome.play.turnover,
+      result_text: outcome.play.resultText,
+      pre_state: preState,
+      seed,
+      seed_hash: seedHash,
+      rng_draws: rng.draws,
+    })
+    .select();
+
+  // Teammates' answers belong to this play from here on, for the box score.
+  if (playRow?.[0]?.id) {
+    await supabase
+      .from("play_answers")
+      .update({ play_id: playRow[0].id })
+      .eq("game_id", gameId)
+      .eq("seq", seq)
+      .is("play_id", null);
   }
-  yards += appliedMod;
 
-  if (finalDefenseCorrect) {
-    // Defense halves gains; if offense also wrong, allow small losses
-    yards = Math.floor(yards / 2);
-    if (!finalOffenseCorrect) {
-      yards -= randomInt(1, 3);
-      if (isPassLike && rollDiff > 2) {
-        yards -= randomInt(0, 2); // sack/tackle for loss only when defense wins big
-      }
-    }
-  } else if (finalOffenseCorrect) {
-    yards += 2;
+  await logGameEvent(gameId, "play_resolved", {
+    seq,
+    yards: outcome.play.yards,
+    turnover: outcome.play.turnover,
+    turnover_type: outcome.play.turnoverType,
+    touchdown: outcome.play.touchdown,
+    safety: outcome.play.safety,
+    ...(isConversion ? { conversion: "two_point", conversion_good: outcome.play.conversionGood } : {}),
+    ...outcome.play.kick,
+    ...outcome.play.takeaway,
+    ...(foul && penalty
+      ? { penalty: foul.type, penalty_against: foul.against, penalty_yards: penalty.yards }
+      : {}),
+    call_offense: offensePlay,
+    call_defense: defensePlay,
+    question_id: game.current_question_id,
+    offense_correct: finalOffenseCorrect,
+    defense_correct: finalDefenseCorrect,
+    offense_roll: dieOffense,
+    defense_roll: dieDefense,
+    quarter: game.quarter ?? 1,
+    clock_seconds: clock.quarterEnded ? 0 : clock.clockSeconds,
+    seed,
+    seed_hash: seedHash,
+    ...rngPayload(rng),
+    state: pickReplayState(updatedGame),
+  });
+
+  await logClockEvents(gameId, game.quarter ?? 1, clock, outcome.state.scoreHome, outcome.state.scoreAway, {
+    kicking_side: outcome.state.defenseSide,
+    receiving_side: outcome.state.possession,
+    yard_line: outcome.state.yardLine,
+  });
+  if (foul && penalty) {
+    const fouledSide = foul.against === "offense" ? game.offense_side : game.defense_side;
+    await logPenalty(gameId, seq, "roll", foul.type, foul.against, fouledSide, penalty);
   }
+  await logSettlement(gameId, settlement, outcome.state.scoreHome, outcome.state.scoreAway, overtime.rule);
+
+  return { success: true, game: updatedGame, play: playRow?.[0] };
+}
+
+export async function chooseConversionAction(
+  gameId: string,
+  choice: "pat" | "two_point",
+): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
 
-  if (isHail && !finalOffenseCorrect && dieOffense <= 3 && turnoverChance) {
-    yards = -randomInt(5, 12);
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, play_subphase, offense_side, play_clock_deadline")
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+  if (game.phase !== "conversion" || game.play_subphase !== "choice") {
+    return { success: false, error: "No try to attempt right now." };
+  }
+  if (playClockExpired(game.play_clock_deadline)) {
+    await enforcePlayClockAction(gameId);
+    return { success: false, error: "Play clock expired. The extra point was kicked." };
   }
 
-  yards = Math.max(-20, Math.min(60, yards));
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", playerId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!player) return { success: false, error: "Player not found." };
+  if (player.role !== "ref" && player.side !== game.offense_side) {
+    return { success: false, error: "Only the scoring team (or ref) can choose the try." };
+  }
+
+  const scoringSide = game.offense_side as Side;
 
-  const newYardLine = Math.min(100, Math.max(0, game.yard_line + (game.offense_side === "home" ? yards : -yards)));
-  const gained = game.offense_side === "home" ? newYardLine - game.yard_line : game.yard_line - newYardLine;
-  const remaining = game.distance - gained;
+  if (choice === "two_point") {
+    // Run the try through the normal play flow from the 2-yard line.
+    const { data: updatedGame, error } = await supabase
+      .from("games")
+      .update({
+        play_subphase: "play_call",
+        down: 1,
+        distance: 2,
+        yard_line: tryLine(scoringSide),
+        play_clock_deadline: playClockDeadline(),
+      })
+      .eq("id", gameId)
+      .select()
+      .single();
+    if (error) return { success: false, error: error.message };
+    await logGameEvent(gameId, "conversion_chosen", { choice, side: scoringSide });
+    return { success: true, game: updatedGame, message: "Two-point try. Call your play." };
+  }
 
-  let nextDown = game.down;
-  let nextDistance = remaining > 0 ? remaining : 10;
-  let nextYardLine = newYardLine;
-  let possession = game.offense_side;
-  let offenseSide = game.offense_side;
-  let defenseSide = game.defense_side;
-  let turnover = false;
+  return kickExtraPoint(supabase, gameId);
+}
 
-  if (remaining <= 0) {
-    // First down achieved
-    nextDown = 1;
-    nextDistance = 10;
-  } else {
-    nextDown = game.down + 1;
+// The kicked try, chosen by the scoring team or taken for it when the play clock runs out on the choice.
+async function kickExtraPoint(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+): Promise<ActionResult> {
+  const { data: game } = await supabase
+    .from("games")
+    .select(
+      "quarter, clock_seconds, offense_side, score_home, score_away, current_play_seq, second_half_kickoff_side, overtime_rule, overtime_period, overtime_possessions, toss_winner_side, toss_choice",
+    )
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+
+  const scoringSide = game.offense_side as Side;
+  const rng = await claimGameRng(supabase, gameId);
+  const good = rng.chance(PAT_ODDS);
+  const scoreHome = game.score_home + (good && scoringSide === "home" ? 1 : 0);
+  const scoreAway = game.score_away + (good && scoringSide === "away" ? 1 : 0);
+
+  // A touchdown on the last snap held the quarter open for the try; close it out now.
+  const clock = advanceClock(game.quarter ?? 1, game.clock_seconds ?? QUARTER_SECONDS, 0);
+  const restart = kickoffBy(
+    clock.halftime ? ((game.second_half_kickoff_side ?? "home") as Side) : scoringSide,
+  );
+  const overtime = overtimeFromGame(game);
+  const settlement = settleGame(overtime, {
+    scoreHome,
+    scoreAway,
+    clockExpired: clock.gameOver,
+    possessionOver: true,
+  });
+  const settled = settlement ? settlementColumns(settlement) : null;
+  const phase = settled?.phase ?? (clock.halftime ? "halftime" : "kickoff");
+
+  // Conditional on the phase so a second caller can't replay the try, and with it any overtime toss it opens.
+  const { data: updatedGame, error } = await supabase
+    .from("games")
+    .update({
+      phase,
+      play_subphase: nextSubphase(phase),
+      play_clock_deadline: deadlineFor(nextSubphase(phase)),
+      quarter: clock.quarter,
+      clock_seconds: clock.clockSeconds,
+      possession_side: restart.possession,
+      offense_side: restart.offenseSide,
+      defense_side: restart.defenseSide,
+      down: restart.down,
+      distance: restart.distance,
+      yard_line: restart.yardLine,
+      score_home: scoreHome,
+      score_away: scoreAway,
+      ...(phase === "halftime" ? TIMEOUT_RESET : {}),
+      ...settled?.columns,
+    })
+    .eq("id", gameId)
+    .eq("phase", "conversion")
+    .select()
+    .maybeSingle();
+  if (error) return { success: false, error: error.message };
+  if (!updatedGame) return { success: true, message: "Try already resolved." };
+
+  await logGameEvent(gameId, "conversion_resolved", {
+    seq: game.current_play_seq ?? 1,
+    choice: "pat",
+    side: scoringSide,
+    good,
+    points: good ? 1 : 0,
+    ...rngPayload(rng),
+    state: pickReplayState(updatedGame),
+  });
+  await logClockEvents(gameId, game.quarter ?? 1, clock, scoreHome, scoreAway, {
+    kicking_side: restart.defenseSide,
+    receiving_side: restart.possession,
+    yard_line: restart.yardLine,
+  });
+  await logSettlement(gameId, settlement, scoreHome, scoreAway, overtime.rule);
+
+  return { success: true, game: updatedGame, message: good ? "Extra point is good." : "Extra point missed." };
+}
+
+export async function chooseKickoffAction(
+  gameId: string,
+  kickType: KickoffType,
+): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  if (!KICKOFF_TYPES.includes(kickType)) return { success: false, error: "Invalid kickoff type." };
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, play_subphase, possession_side")
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+  if (game.phase !== "kickoff" || game.play_subphase === "kick_return") {
+    return { success: false, error: "No kickoff to call right now." };
   }
 
-  if (nextDown > 4) {
-    turnover = true;
-    nextDown = 1;
-    nextDistance = 10;
-    possession = game.defense_side;
-    offenseSide = game.defense_side;
-    defenseSide = game.offense_side;
-    // flip field position: keep same yard line but perspective flips
+  const kickingSide = otherSide((game.possession_side ?? "home") as Side);
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", playerId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!player) return { success: false, error: "Player not found." };
+  if (player.role !== "ref" && player.side !== kickingSide) {
+    return { success: false, error: "Only the kicking team (or ref) can call the kickoff." };
   }
 
-  // Simple scoring: if offense reaches 100 yard line, touchdown
+  const rng = await claimGameRng(supabase, gameId);
+  const questionId = await pickPlayQuestion(supabase, gameId, KICKOFF_DIFFICULTY[kickType], rng);
+  if (!questionId) return { success: false, error: "No questions available. Import questions first." };
+
+  const { data: updatedGame, error } = await supabase
+    .from("games")
+    .update({
+      play_subphase: "kick_return",
+      kickoff_type: kickType,
+      current_question_id: questionId,
+      play_clock_deadline: playClockDeadline(),
+    })
+    .eq("id", gameId)
+    .select()
+    .single();
+  if (error) return { success: false, error: error.message };
+
+  await logGameEvent(gameId, "kickoff_chosen", {
+    kick_type: kickType,
+    kicking_side: kickingSide,
+    question_id: questionId,
+    ...rngPayload(rng),
+  });
+
+  return { success: true, game: updatedGame, message: "Kickoff called. Return team is on the clock." };
+}
+
+export async function answerKickoffQuestionAction(
+  gameId: string,
+  choiceIndex: number,
+): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, play_subphase, possession_side, current_question_id, play_clock_deadline")
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+  if (game.phase !== "kickoff" || game.play_subphase !== "kick_return") {
+    return { success: false, error: "Not accepting a return answer right now." };
+  }
+  if (!game.current_question_id) return { success: false, error: "No question for this kickoff." };
+  if (playClockExpired(game.play_clock_deadline)) {
+    await enforcePlayClockAction(gameId);
+    return { success: false, error: "Play clock expired. The return team was marked wrong." };
+  }
+
+  const receivingSide = (game.possession_side ?? "home") as Side;
+
+  const { data: player } = await supabase
+    .from("players")
+    .select("id, side, role")
+    .eq("id", playerId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!player) return { success: false, error: "Player not found." };
+  if (player.role !== "ref" && player.side !== receivingSide) {
+    return { success: false, error: "Only the return team (or ref) can answer." };
+  }
+
+  const { data: question } = await supabase
+    .from("questions")
+    .select("correct_index, choices")
+    .eq("id", game.current_question_id)
+    .single();
+  if (!question) return { success: false, error: "Question missing." };
+  if (!Number.isInteger(choiceIndex) || choiceIndex < 0 || choiceIndex >= (question.choices?.length ?? 0)) {
+    return { success: false, error: "Invalid answer choice." };
+  }
+  return finishKickReturn(supabase, gameId, choiceIndex === question.correct_index);
+}
+
+// Kicks the ball and runs the return once the return team has answered, or marks them wrong when the play clock
+// runs out on the question.
+async function finishKickReturn(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  returnCorrect: boolean,
+): Promise<ActionResult> {
+  const { data: game } = await supabase
+    .from("games")
+    .select(
+      "quarter, clock_seconds, possession_side, score_home, score_away, kickoff_type, current_question_id, second_half_kickoff_side, overtime_rule, overtime_period, overtime_possessions, toss_winner_side, toss_choice",
+    )
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+
+  const receivingSide = (game.possession_side ?? "home") as Side;
+  const kickingSide = otherSide(receivingSide);
+  const kickType = (game.kickoff_type ?? "normal") as KickoffType;
+  const rng = await claimGameRng(supabase, gameId);
+  const roll = rng.int(1, 20);
+  const kick = resolveKickoff(rng, kickingSide, kickType, returnCorrect, roll);
+
   let scoreHome = game.score_home;
   let scoreAway = game.score_away;
-  let phase = game.phase;
-  if (game.offense_side === "home" && newYardLine >= 100) {
-    scoreHome += 7;
-    phase = "kickoff";
-    possession = "away";
-    offenseSide = "away";
-    defenseSide = "home";
-    nextDown = 1;
-    nextDistance = 10;
-    nextYardLine = 25;
-  } else if (game.offense_side === "away" && newYardLine <= 0) {
-    scoreAway += 7;
-    phase = "kickoff";
-    possession = "home";
-    offenseSide = "home";
-    defenseSide = "away";
-    nextDown = 1;
-    nextDistance = 10;
-    nextYardLine = 25;
+  let phase = kick.touchdown ? "conversion" : "drive";
+  let field = {
+    possession: kick.possession,
+    offenseSide: kick.possession,
+    defenseSide: otherSide(kick.possession),
+    down: 1,
+    distance: firstDownDistance(kick.possession, kick.yardLine),
+    yardLine: kick.yardLine,
+  };
+  if (kick.touchdown) {
+    if (receivingSide === "home") scoreHome += 6;
+    else scoreAway += 6;
+    field = { ...field, distance: 2, yardLine: tryLine(receivingSide) };
   }
 
-  const nextSeq = (game.current_play_seq ?? 1) + 1;
-  const { data: updatedGame, error: gameUpdateError } = await supabase
+  // Touchbacks take no time off; a return can run out the quarter (a return touchdown still gets its try).
+  const burn = kick.touchback ? 0 : clockBurnForPlay("kick");
+  const clock = kick.touchdown
+    ? runOffClock(game.quarter ?? 1, game.clock_seconds ?? QUARTER_SECONDS, burn)
+    : advanceClock(game.quarter ?? 1, game.clock_seconds ?? QUARTER_SECONDS, burn);
+  if (clock.halftime) {
+    phase = "halftime";
+    field = kickoffBy((game.second_half_kickoff_side ?? "home") as Side);
+  }
+  const overtime = overtimeFromGame(game);
+  const settlement = settleGame(overtime, {
+    scoreHome,
+    scoreAway,
+    clockExpired: clock.gameOver,
+    possessionOver: false,
+  });
+  const settled = settlement ? settlementColumns(settlement) : null;
+  if (settled) phase = settled.phase;
+
+  const { data: updatedGame, error } = await supabase
     .from("games")
     .update({
-      play_subphase: phase === "kickoff" ? null : "play_call",
       phase,
-      down: nextDown,
-      distance: nextDistance,
-      yard_line: nextYardLine,
-      possession_side: possession,
-      offense_side: offenseSide,
-      defense_side: defenseSide,
+      play_subphase: nextSubphase(phase),
+      quarter: clock.quarter,
+      clock_seconds: clock.clockSeconds,
+      play_clock_seconds: PLAY_CLOCK_SECONDS,
+      possession_side: field.possession,
+      offense_side: field.offenseSide,
+      defense_side: field.defenseSide,
+      down: field.down,
+      distance: field.distance,
+      yard_line: field.yardLine,
       score_home: scoreHome,
       score_away: scoreAway,
-      current_play_seq: nextSeq,
+      kickoff_type: null,
+      current_question_id: null,
+      play_clock_deadline: deadlineFor(nextSubphase(phase)),
+      ...(phase === "halftime" ? TIMEOUT_RESET : {}),
+      ...settled?.columns,
     })
     .eq("id", gameId)
+    .eq("phase", "kickoff")
+    .eq("play_subphase", "kick_return")
     .select()
+    .maybeSingle();
+  if (error) return { success: false, error: error.message };
+  if (!updatedGame) return { success: true, message: "Kickoff already resolved." };
+
+  const resultText = kick.touchback
+    ? "Kickoff touchback"
+    : kickType === "onside"
+      ? kick.onsideRecovered
+        ? "Onside kick recovered by the kicking team"
+        : "Onside kick recovered by the return team"
+      : kick.touchdown
+        ? `Kickoff returned ${kick.returnYards} yards for a touchdown`
+        : `Kickoff returned ${kick.returnYards} yards`;
+
+  await logGameEvent(gameId, "kickoff_resolved", {
+    kick_type: kickType,
+    kicking_side: kickingSide,
+    receiving_side: receivingSide,
+    question_id: game.current_question_id,
+    return_correct: returnCorrect,
+    roll,
+    kick_yards: kick.kickYards,
+    return_yards: kick.returnYards,
+    touchback: kick.touchback,
+    onside_recovered: kick.onsideRecovered,
+    touchdown: kick.touchdown,
+    possession_side: kick.possession,
+    yard_line: kick.yardLine,
+    result_text: resultText,
+    quarter: game.quarter ?? 1,
+    clock_seconds: clock.quarterEnded ? 0 : clock.clockSeconds,
+    ...rngPayload(rng),
+    state: pickReplayState(updatedGame),
+  });
+  await logClockEvents(gameId, game.quarter ?? 1, clock, scoreHome, scoreAway, {
+    kicking_side: field.defenseSide,
+    receiving_side: field.possession,
+    yard_line: field.yardLine,
+  });
+  await logSettlement(gameId, settlement, scoreHome, scoreAway, overtime.rule);
+
+  return { success: true, game: updatedGame, message: resultText };
+}
+
+const sidePlayerId = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  side: string,
+  fallbackId: string | null,
+) => {
+  const { data } = await supabase
+    .from("players")
+    .select("id")
+    .eq("game_id", gameId)
+    .eq("side", side)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  return data?.id ?? fallbackId;
+};
+
+// Play clock ran out: lock in defaults for whichever side is missing and move the play along.
+// Any client can trigger this once its countdown hits zero; the server deadline decides.
+export async function enforcePlayClockAction(gameId: string): Promise<ActionResult> {
+  const supabase = createSupabaseServerClient();
+
+  const { data: game } = await supabase
+    .from("games")
+    .select(
+      "phase, play_subphase, offense_side, defense_side, down, distance, yard_line, current_play_seq, play_clock_deadline, host_player_id, playbook_home, playbook_away, call_mode_home, call_mode_away, answer_rule_home, answer_rule_away, captain_home, captain_away",
+    )
+    .eq("id", gameId)
     .single();
+  if (!game) return { success: false, error: "Game not found." };
+  if (
+    !["drive", "conversion", "kickoff"].includes(game.phase) ||
+    !PLAY_CLOCK_SUBPHASES.includes(game.play_subphase ?? "") ||
+    !playClockExpired(game.play_clock_deadline)
+  ) {
+    return { success: false, error: "Play clock is still running." };
+  }
 
-  if (gameUpdateError) {
-    return { success: false, error: gameUpdateError.message };
+  // Claim this expiry so simultaneous callers don't apply defaults twice.
+  const { data: claimed } = await supabase
+    .from("games")
+    .update({ play_clock_deadline: null })
+    .eq("id", gameId)
+    .eq("play_clock_deadline", game.play_clock_deadline)
+    .select("id");
+  if (!claimed?.length) return { success: true, message: "Play clock already handled." };
+
+  const seq = game.current_play_seq ?? 1;
+
+  if (game.play_subphase === "choice") {
+    // A scoring team that doesn't choose kicks the extra point.
+    await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted: ["offense"] });
+    return kickExtraPoint(supabase, gameId);
   }
 
-  // Clear out any play calls for the next sequence to avoid stale submissions carrying over.
-  await supabase.from("play_calls").delete().eq("game_id", gameId).eq("seq", nextSeq);
+  if (game.play_subphase === "kick_return") {
+    // An unanswered return question counts as wrong.
+    await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted: ["receiving"] });
+    return finishKickReturn(supabase, gameId, false);
+  }
 
-  const { data: playRow } = await supabase.from("plays").insert({
-    game_id: gameId,
-    seq,
-    offense_side: game.offense_side,
-    defense_side: game.defense_side,
-    call_offense: offensePlay,
-    call_defense: defensePlay,
-    difficulty: offenseDiff,
-    offense_roll: dieOffense,
-    defense_roll: dieDefense,
-    offense_correct: finalOffenseCorrect,
-    defense_correct: finalDefenseCorrect,
-    yards: gained,
-    turnover,
-    result_text: turnover ? "Turnover on downs" : `Gained ${gained} yards`,
+  const { data: calls } = await supabase
+    .from("play_calls")
+    .select("role, difficulty, answer, roll, ready_after_roll")
+    .eq("game_id", gameId)
+    .eq("seq", seq);
+  const roles = ["offense", "defense"] as const;
+  const defaulted: string[] = [];
+
+  if (game.play_subphase === "play_call") {
+    // An offense that hasn't called its play is flagged for delay of game once per snap, then gets the default call.
+    if (game.phase === "drive" && !calls?.some((c) => c.role === "offense")) {
+      const { data: earlierDelay } = await supabase
+        .from("game_events")
+        .select("id")
+        .eq("game_id", gameId)
+        .eq("type", "penalty")
+        .contains("payload", { seq, penalty: "delay_of_game" })
+        .limit(1);
+      if (!earlierDelay?.length) {
+        const delay = enforcePenalty("delay_of_game", "offense", game.offense_side as Side, {
+          yardLine: game.yard_line,
+          down: game.down,
+          distance: game.distance,
+        });
+        const { data: updatedGame } = await supabase
+          .from("games")
+          .update({
+            down: delay.down,
+            distance: delay.distance,
+            yard_line: delay.yardLine,
+            play_clock_deadline: playClockDeadline(),
+          })
+          .eq("id", gameId)
+          .select()
+          .single();
+        await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted });
+        await logPenalty(gameId, seq, "play_clock", "delay_of_game", "offense", game.offense_side, delay);
+        return { success: true, game: updatedGame, message: describePenalty("delay_of_game", "offense", delay) };
+      }
+    }
+
+    let offenseDifficulty = calls?.find((c) => c.role === "offense")?.difficulty ?? "easy";
+    for (const role of roles) {
+      if (calls?.some((c) => c.role === role)) continue;
+      const side = role === "offense" ? game.offense_side : game.defense_side;
+      const playerId = await sidePlayerId(supabase, gameId, side, game.host_player_id);
+      if (!playerId) continue;
+      // A side still voting runs whatever its vote leads with; otherwise it gets the default call.
+      const leader =
+        callModeFor(game, side) === "vote" ? tallyVotes(await sideVotes(supabase, gameId, seq, role), 0).leader : null;
+      const call = leader ?? {
+        play_call: defaultCall(playbookFor(game, side), role),
+        difficulty: role === "offense" ? "easy" : "n/a",
+      };
+      await supabase.from("play_calls").upsert(
+        {
+          game_id: gameId,
+          player_id: playerId,
+          side,
+          role,
+          play_call: call.play_call,
+          difficulty: call.difficulty,
+          seq,
+        },
+        { onConflict: "game_id,seq,role" },
+      );
+      if (role === "offense") offenseDifficulty = call.difficulty;
+      defaulted.push(role);
+    }
+    await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted });
+
+    const locked = await lockPlayCalls(supabase, gameId, seq, offenseDifficulty);
+    if (locked.error) return { success: false, error: locked.error };
+    return { success: true, game: locked.game, message: "Play clock expired. Default calls locked in." };
+  }
+
+  if (game.play_subphase === "question") {
+    // Unanswered questions count as incorrect; a side's rule grades whatever its teammates did answer.
+    for (const role of roles) {
+      if (calls?.find((c) => c.role === role)?.answer != null) continue;
+      const side = role === "offense" ? game.offense_side : game.defense_side;
+      const { data: teammates } = await supabase
+        .from("play_answers")
+        .select("player_id, correct, answer_index")
+        .eq("game_id", gameId)
+        .eq("seq", seq)
+        .eq("role", role)
+        .is("play_id", null)
+        .order("created_at", { ascending: true });
+      const roster = await sideRoster(supabase, gameId, side);
+      const captainId = effectiveCaptain(side === "home" ? game.captain_home : game.captain_away, roster);
+      const rule = answerRuleFor(game, side);
+      const answer = gradeSide(rule, teammates ?? [], roster, captainId, true);
+      await supabase
+        .from("play_calls")
+        .update({ answer, answer_index: sideAnswerIndex(rule, teammates ?? [], roster, captainId) })
+        .eq("game_id", gameId)
+        .eq("seq", seq)
+        .eq("role", role);
+      defaulted.push(role);
+    }
+    await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted });
+    await startRolls(supabase, gameId, seq);
+    return { success: true, message: "Play clock expired. Unanswered questions marked incorrect." };
+  }
+
+  if (game.play_subphase === "rolls") {
+    const { seed, seedHash } = await currentPlaySeed(supabase, gameId);
+    const rolls = { offense: 0, defense: 0 };
+    for (const role of roles) {
+      const call = calls?.find((c) => c.role === role);
+      if (call?.roll != null) {
+        rolls[role] = call.roll;
+        continue;
+      }
+      rolls[role] =
+        role === "offense"
+          ? rollByDifficulty(createRng(seed, PLAY_STREAMS.offenseRoll), call?.difficulty ?? "easy")
+          : createRng(seed, PLAY_STREAMS.defenseRoll).int(1, 4);
+      await supabase
+        .from("play_calls")
+        .update({ roll: rolls[role] })
+        .eq("game_id", gameId)
+        .eq("seq", seq)
+        .eq("role", role);
+      defaulted.push(role);
+    }
+    await logGameEvent(gameId, "play_clock_expired", {
+      seq,
+      subphase: game.play_subphase,
+      defaulted,
+      offense_roll: rolls.offense,
+      defense_roll: rolls.defense,
+      seed_hash: seedHash,
+    });
+    await completeRolls(supabase, gameId, seq, rolls.offense, rolls.defense);
+    return { success: true, message: "Play clock expired. Dice rolled automatically." };
+  }
+
+  // rolls_done: whoever hasn't tapped continue is carried along.
+  for (const role of roles) {
+    if (calls?.find((c) => c.role === role)?.ready_after_roll) continue;
+    defaulted.push(role);
+  }
+  await supabase.from("play_calls").update({ ready_after_roll: true }).eq("game_id", gameId).eq("seq", seq);
+  await logGameEvent(gameId, "play_clock_expired", { seq, subphase: game.play_subphase, defaulted });
+  return finalizePlayResolution(gameId, seq);
+}
+
+export async function issuePenaltyAction(
+  gameId: string,
+  type: PenaltyType,
+  against: PenaltyAgainst,
+): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  if (!PENALTY_TYPES.includes(type) || !["offense", "defense"].includes(against)) {
+    return { success: false, error: "Unknown penalty." };
+  }
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can throw a flag." };
+  }
+
+  const { data: game } = await supabase
+    .from("games")
+    .select("phase, play_subphase, offense_side, defense_side, down, distance, yard_line, current_play_seq")
+    .eq("id", gameId)
+    .single();
+  if (!game) return { success: false, error: "Game not found." };
+  if (game.phase !== "drive" || game.play_subphase !== "play_call") {
+    return { success: false, error: "Flags can only be thrown between plays." };
+  }
+
+  const enforcement = enforcePenalty(type, against, game.offense_side as Side, {
+    yardLine: game.yard_line,
+    down: game.down,
+    distance: game.distance,
   });
+  const seq = game.current_play_seq ?? 1;
 
-  await logGameEvent(gameId, "play_resolved", {
-    seq,
-    yards: gained,
-    turnover,
-    touchdown: phase === "kickoff",
-    call_offense: offensePlay,
-    call_defense: defensePlay,
-    offense_correct: finalOffenseCorrect,
-    defense_correct: finalDefenseCorrect,
-    offense_roll: dieOffense,
-    defense_roll: dieDefense,
+  const { data: updatedGame, error } = await supabase
+    .from("games")
+    .update({
+      down: enforcement.down,
+      distance: enforcement.distance,
+      yard_line: enforcement.yardLine,
+      play_clock_deadline: playClockDeadline(),
+    })
+    .eq("id", gameId)
+    .select()
+    .single();
+  if (error) return { success: false, error: error.message };
+
+  // Calls made from the old spot are void; both sides call again.
+  await supabase.from("play_calls").delete().eq("game_id", gameId).eq("seq", seq);
+  await supabase.from("play_call_votes").delete().eq("game_id", gameId).eq("seq", seq);
+  await supabase.from("play_answers").delete().eq("game_id", gameId).is("play_id", null).eq("seq", seq);
+
+  const fouledSide = against === "offense" ? game.offense_side : game.defense_side;
+  await logPenalty(gameId, seq, "ref", type, against, fouledSide, enforcement);
+
+  return { success: true, game: updatedGame, message: describePenalty(type, against, enforcement) };
+}
+
+// Puts the game back to the snapshot taken before the most recent play and replays that down from the call.
+// Anything that happened since (a kickoff, a try, a new period) is rolled back with it.
+export async function undoLastPlayAction(gameId: string): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
+  const supabase = createSupabaseServerClient();
+
+  const { data: requester } = await supabase
+    .from("players")
+    .select("id, role")
+    .eq("id", requesterId)
+    .eq("game_id", gameId)
+    .maybeSingle();
+  if (!requester || requester.role !== "ref") {
+    return { success: false, error: "Only the ref can undo a play." };
+  }
+
+  const { data: play } = await supabase
+    .from("plays")
+    .select("id, seq, result_text, pre_state")
+    .eq("game_id", gameId)
+    .eq("voided", false)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!play) return { success: false, error: "No play to undo." };
+  if (!play.pre_state) return { success: false, error: "That play was recorded without a snapshot and can't be undone." };
+
+  const restored = play.pre_state as Record<string, unknown>;
+  const subphase = nextSubphase(String(restored.phase));
+  const { data: updatedGame, error } = await supabase
+    .from("games")
+    .update({
+      ...restored,
+      play_subphase: subphase,
+      current_question_id: null,
+      play_clock_deadline: deadlineFor(subphase),
+    })
+    .eq("id", gameId)
+    .select()
+    .single();
+  if (error) return { success: false, error: error.message };
+
+  await supabase.from("plays").update({ voided: true }).eq("id", play.id);
+  // Calls for the undone down and anything submitted after it start over.
+  await supabase.from("play_calls").delete().eq("game_id", gameId).gte("seq", play.seq ?? 1);
+  await supabase.from("play_call_votes").delete().eq("game_id", gameId).gte("seq", play.seq ?? 1);
+  await supabase.from("play_answers").delete().eq("game_id", gameId).is("play_id", null).gte("seq", play.seq ?? 1);
+
+  await logGameEvent(gameId, "play_undone", {
+    seq: play.seq,
+    play_id: play.id,
+    result_text: play.result_text,
+    state: pickReplayState(restored),
   });
 
-  return { success: true, game: updatedGame, play: playRow?.[0] };
+  return { success: true, game: updatedGame, message: "Last play undone." };
 }
 
 export async function continueAfterRollAction(
   gameId: string,
-  playerId: string,
   forSide?: "offense" | "defense",
 ): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
 
   const { data: game } = await supabase
@@ -562,7 +1825,7 @@ export async function continueAfterRollAction(
     .eq("id", gameId)
     .single();
   if (!game) return { success: false, error: "Game not found." };
-  if (game.phase !== "drive" || game.play_subphase !== "rolls_done") {
+  if (!["drive", "conversion"].includes(game.phase) || game.play_subphase !== "rolls_done") {
     return { success: false, error: "Not ready to resolve yet." };
   }
 
@@ -573,10 +1836,15 @@ export async function continueAfterRollAction(
     .eq("game_id", gameId)
     .maybeSingle();
   if (!player) return { success: false, error: "Player not found." };
+  const isRef = player.role === "ref";
+  if (!isRef && player.side !== game.offense_side && player.side !== game.defense_side) {
+    return { success: false, error: "Not part of this play." };
+  }
   const seq = game.current_play_seq ?? 1;
 
+  // Players continue for their own side; only the ref can continue on either side's behalf.
   const targetRole =
-    forSide ??
+    (isRef ? forSide : undefined) ??
     (player.side === game.offense_side ? "offense" : player.side === game.defense_side ? "defense" : "offense");
 
   await supabase
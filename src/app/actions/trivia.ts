@@ -1,7 +1,9 @@
 "use server";
 
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
-import { logGameEvent } from "@/app/actions/events";
+import { logGameEvent } from "@/lib/gameEvents";
+import { claimGameRng, createRng, rngPayload } from "@/lib/rng";
+import { NOT_SIGNED_IN, sessionPlayerId } from "@/lib/session";
 
 type ActionResult =
   | { success: true; message?: string; game?: Record<string, unknown> | null }
@@ -56,16 +58,28 @@ const decodeHtml = (input: string) =>
     .replace(/&rdquo;/g, '"')
     .replace(/&eacute;/g, "é");
 
-const shuffle = <T,>(arr: T[]) => {
-  const copy = [...arr];
-  for (let i = copy.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [copy[i], copy[j]] = [copy[j], copy[i]];
-  }
-  return copy;
+// Why the session's player can't run a host-only action on this game, or null when they host it
+// (or, with `allowPicker`, when they're picking this block).
+const hostProblem = async (
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+  error: string,
+  allowPicker = false,
+): Promise<string | null> => {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return NOT_SIGNED_IN;
+  const { data: game } = await supabase.from("games").select("host_player_id, picker_player_id").eq("id", gameId).maybeSingle();
+  if (!game) return "Game not found.";
+  const { data: player } = await supabase.from("players").select("role").eq("id", playerId).eq("game_id", gameId).maybeSingle();
+  if (!player) return "Player not found.";
+  const isHost = game.host_player_id === playerId || player.role === "ref" || player.role === "host";
+  return isHost || (allowPicker && game.picker_player_id === playerId) ? null : error;
 };
 
-export async function startTriviaRound(gameId: string, hostId: string, questionId: string, seq: number): Promise<ActionResult> {
+export async function startTriviaRound(gameId: string, questionId: string, seq: number): Promise<ActionResult> {
+  const hostId = await sessionPlayerId(gameId);
+  if (!hostId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
   const { data: game } = await supabase.from("games").select("id, host_player_id, mode").eq("id", gameId).single();
   if (!game) return { success: false, error: "Game not found." };
@@ -89,7 +103,10 @@ export async function startTriviaRound(gameId: string, hostId: string, questionI
   return { success: true };
 }
 
-export async function submitTriviaAnswer(roundId: string, gameId: string, playerId: string, choiceIndex: number): Promise<ActionResult> {
+export async function submitTriviaAnswer(roundId: string, gameId: string, choiceIndex: number): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
   const { data: round } = await supabase.from("rounds").select("status").eq("id", roundId).single();
   if (!round || round.status !== "live") return { success: false, error: "Round not accepting answers." };
@@ -117,7 +134,7 @@ export async function submitTriviaAnswer(roundId: string, gameId: string, player
     .select("id", { count: "exact", head: true })
     .eq("round_id", roundId);
   if ((totalPlayers ?? 0) > 0 && (totalAnswers ?? 0) >= (totalPlayers ?? 0)) {
-    await lockAndScoreRound(roundId, gameId);
+    await scoreRound(roundId, gameId);
   }
 
   return { success: true };
@@ -125,6 +142,14 @@ export async function submitTriviaAnswer(roundId: string, gameId: string, player
 
 export async function lockAndScoreRound(roundId: string, gameId: string): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
+  const problem = await hostProblem(supabase, gameId, "Only the host can reveal the answer.");
+  if (problem) return { success: false, error: problem };
+  return scoreRound(roundId, gameId);
+}
+
+// Locks the round, scores its answers and reveals it; runs on the host's say-so or once everyone has answered.
+async function scoreRound(roundId: string, gameId: string): Promise<ActionResult> {
+  const supabase = createSupabaseServerClient();
 
   const { data: round } = await supabase
     .from("rounds")
@@ -210,10 +235,15 @@ export async function lockAndScoreRound(roundId: string, gameId: string): Promis
     if ((revealedInBlock ?? 0) >= (totalRoundsInBlock ?? 0) && (totalRoundsInBlock ?? 0) > 0) {
       const topScore = playerScores?.reduce((max, p) => Math.max(max, p.score ?? 0), 0) ?? 0;
       const topPlayers = (playerScores ?? []).filter((p) => (p.score ?? 0) === topScore);
-      const finalWinner = topPlayers.length > 0 ? topPlayers[Math.floor(Math.random() * topPlayers.length)] : null;
+      const rng = await claimGameRng(supabase, gameId);
+      const finalWinner = topPlayers.length > 0 ? rng.pick(topPlayers) : null;
       await supabase.from("games").update({ status: "completed", winner_player_id: finalWinner?.id ?? null }).eq("id", gameId);
       await logGameEvent(gameId, "trivia_block_completed", { block: round.block ?? 1 });
-      await logGameEvent(gameId, "trivia_completed", { winner: finalWinner?.id ?? null, score: topScore });
+      await logGameEvent(gameId, "trivia_completed", {
+        winner: finalWinner?.id ?? null,
+        score: topScore,
+        ...rngPayload(rng),
+      });
       return { success: true };
     }
 
@@ -224,6 +254,8 @@ export async function lockAndScoreRound(roundId: string, gameId: string): Promis
 
 export async function ensureLiveRound(gameId: string): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
+  const problem = await hostProblem(supabase, gameId, "Only the host can start rounds.");
+  if (problem) return { success: false, error: problem };
 
   const { count: liveCount } = await supabase
     .from("rounds")
@@ -254,9 +286,20 @@ export async function ensureLiveRound(gameId: string): Promise<ActionResult> {
 }
 
 export async function importOpenTriviaBatch(
+  gameId: string,
   amount = 20,
   difficulty?: "easy" | "medium" | "hard",
   categoryId?: number,
+): Promise<ActionResult> {
+  const problem = await hostProblem(createSupabaseServerClient(), gameId, "Only the host can import questions.");
+  if (problem) return { success: false, error: problem };
+  return importQuestions(amount, difficulty, categoryId);
+}
+
+async function importQuestions(
+  amount: number,
+  difficulty?: "easy" | "medium" | "hard",
+  categoryId?: number,
 ): Promise<ActionResult> {
   const url = new URL("https://opentdb.com/api.php");
   url.searchParams.set("amount", String(amount));
@@ -270,12 +313,14 @@ export async function importOpenTriviaBatch(
   if (!body?.results) return { success: false, error: "No OTDB results." };
 
   const supabase = createSupabaseServerClient();
+  // The question bank is shared by every game, so its choice order isn't drawn from any one game's seed.
+  const rng = createRng(crypto.randomUUID());
 
   const rows = (body.results as OtdbQuestion[]).map((q) => {
     const decodedQuestion = decodeHtml(q.question);
     const decodedCorrect = decodeHtml(q.correct_answer);
     const decodedIncorrect = q.incorrect_answers.map((a) => decodeHtml(a));
-    const choices = shuffle([decodedCorrect, ...decodedIncorrect]);
+    const choices = rng.shuffle([decodedCorrect, ...decodedIncorrect]);
     const correctIndex = choices.indexOf(decodedCorrect);
     return {
       text: decodedQuestion,
@@ -296,18 +341,21 @@ export async function importOpenTriviaBatch(
 
 export async function startTriviaGame(gameId: string): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
+  const problem = await hostProblem(supabase, gameId, "Only the host can start the game.");
+  if (problem) return { success: false, error: problem };
   const { data: players } = await supabase
     .from("players")
     .select("id")
     .eq("game_id", gameId)
     .neq("role", "ref");
   if (!players || players.length === 0) return { success: false, error: "Need at least one player." };
-  const picker = players[Math.floor(Math.random() * players.length)];
+  const rng = await claimGameRng(supabase, gameId);
+  const picker = rng.pick(players);
 
   // Auto-seed a baseline of questions if table is light
   const { count: questionCount } = await supabase.from("questions").select("id", { count: "exact", head: true });
   if ((questionCount ?? 0) < 20) {
-    await importOpenTriviaBatch(50, undefined, undefined);
+    await importQuestions(50);
   }
 
   await supabase.from("players").update({ score: 0 }).eq("game_id", gameId);
@@ -315,16 +363,18 @@ export async function startTriviaGame(gameId: string): Promise<ActionResult> {
     .from("games")
     .update({ picker_player_id: picker.id, current_block: 1, winner_player_id: null, status: "in_progress" })
     .eq("id", gameId);
-  await logGameEvent(gameId, "trivia_picker_assigned", { picker: picker.id, block: 1 });
+  await logGameEvent(gameId, "trivia_picker_assigned", { picker: picker.id, block: 1, ...rngPayload(rng) });
   return { success: true, message: "Trivia game started.", game: { picker_player_id: picker.id, current_block: 1, status: "in_progress" } };
 }
 
 export async function chooseCategoryDifficulty(
   gameId: string,
-  pickerId: string,
   category: string,
   difficulty: "easy" | "medium" | "hard",
 ): Promise<ActionResult> {
+  const pickerId = await sessionPlayerId(gameId);
+  if (!pickerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
   const { data: game } = await supabase.from("games").select("picker_player_id, current_block").eq("id", gameId).single();
   if (!game) return { success: false, error: "Game not found." };
@@ -333,6 +383,7 @@ export async function chooseCategoryDifficulty(
 
   const normalizedCategory = category.trim();
   const BLOCK_SIZE = 20;
+  const rng = await claimGameRng(supabase, gameId);
 
   // Single block game: clear any existing rounds before seeding new set
   await supabase.from("rounds").delete().eq("game_id", gameId);
@@ -362,7 +413,7 @@ export async function chooseCategoryDifficulty(
           const correct = q.correctAnswer ?? q.correct_answer ?? "";
           const incorrect = (q.incorrectAnswers ?? q.incorrect_answers ?? []) as string[];
           if (!text || !correct) return null;
-          const choices = shuffle([correct, ...incorrect]);
+          const choices = rng.shuffle([correct, ...incorrect]);
           const correctIndex = Math.max(0, choices.indexOf(correct));
           return {
             text,
@@ -406,7 +457,7 @@ export async function chooseCategoryDifficulty(
     return { success: false, error: "Not enough questions for that category/difficulty." };
   }
 
-  const shuffledIds = shuffle(insertedIds);
+  const shuffledIds = rng.shuffle(insertedIds);
   const usableIds = shuffledIds.slice(0, Math.min(BLOCK_SIZE, shuffledIds.length));
 
   const { data: lastRound } = await supabase
@@ -430,11 +481,19 @@ export async function chooseCategoryDifficulty(
   const { error } = await supabase.from("rounds").insert(inserts);
   if (error) return { success: false, error: error.message };
 
-  await logGameEvent(gameId, "trivia_block_seeded", { block: game.current_block ?? 1, category: normalizedCategory, difficulty });
+  await logGameEvent(gameId, "trivia_block_seeded", {
+    block: game.current_block ?? 1,
+    category: normalizedCategory,
+    difficulty,
+    ...rngPayload(rng),
+  });
   return { success: true, message: "Category/difficulty set. First question is live." };
 }
 
-export async function confirmReadyNext(gameId: string, playerId: string, roundId: string): Promise<ActionResult> {
+export async function confirmReadyNext(gameId: string, roundId: string): Promise<ActionResult> {
+  const playerId = await sessionPlayerId(gameId);
+  if (!playerId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
   const { data: player } = await supabase
     .from("players")
@@ -499,6 +558,8 @@ export async function confirmReadyNext(gameId: string, playerId: string, roundId
 
 export async function resetTriviaGame(gameId: string): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
+  const problem = await hostProblem(supabase, gameId, "Only the host can reset the game.");
+  if (problem) return { success: false, error: problem };
 
   const { error: ansErr } = await supabase.from("answers").delete().eq("game_id", gameId);
   if (ansErr) return { success: false, error: ansErr.message };
@@ -525,6 +586,8 @@ export async function resetTriviaGame(gameId: string): Promise<ActionResult> {
 
 export async function startNextPendingRound(gameId: string): Promise<ActionResult> {
   const supabase = createSupabaseServerClient();
+  const problem = await hostProblem(supabase, gameId, "Only the host or picker can start the question.", true);
+  if (problem) return { success: false, error: problem };
   const { data: nextPending } = await supabase
     .from("rounds")
     .select("id, seq")
@@ -546,11 +609,14 @@ export async function startNextPendingRound(gameId: string): Promise<ActionResul
   return { success: true };
 }
 
-export async function closeTriviaGame(gameId: string, requesterId?: string): Promise<ActionResult> {
+export async function closeTriviaGame(gameId: string): Promise<ActionResult> {
+  const requesterId = await sessionPlayerId(gameId);
+  if (!requesterId) return { success: false, error: NOT_SIGNED_IN };
+
   const supabase = createSupabaseServerClient();
   const { data: game } = await supabase.from("games").select("host_player_id, code").eq("id", gameId).maybeSingle();
   if (!game) return { success: false, error: "Game not found." };
-  if (game.host_player_id && requesterId && requesterId !== game.host_player_id) {
+  if (game.host_player_id && requesterId !== game.host_player_id) {
     return { success: false, error: "Only the host can close this game." };
   }
 
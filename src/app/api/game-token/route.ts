@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { gameAccessToken, readSession } from "@/lib/session";
+import { createSupabaseServerClient } from "@/lib/supabaseServer";
+
+// Token for the browser's Supabase client; null when the caller isn't signed in or has since left the game.
+export async function GET() {
+  const session = await readSession();
+  if (!session) return NextResponse.json({ token: null });
+
+  const supabase = createSupabaseServerClient();
+  const { data: player } = await supabase
+    .from("players")
+    .select("id")
+    .eq("id", session.playerId)
+    .eq("game_id", session.gameId)
+    .maybeSingle();
+  if (!player) return NextResponse.json({ token: null });
+
+  return NextResponse.json(gameAccessToken(session));
+}
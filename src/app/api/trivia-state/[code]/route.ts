@@ -1,6 +1,7 @@
 "use server";
 
 import { NextResponse } from "next/server";
+import { readSession } from "@/lib/session";
 import { createSupabaseServerClient } from "@/lib/supabaseServer";
 
 export async function GET(
@@ -12,6 +13,9 @@ export async function GET(
   const code = resolvedParams?.code?.toUpperCase?.();
   if (!code) return NextResponse.json({ error: "Missing code" }, { status: 400 });
 
+  const session = await readSession();
+  if (!session) return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+
   const supabase = createSupabaseServerClient();
 
   const { data: game } = await supabase
@@ -20,6 +24,7 @@ export async function GET(
     .eq("code", code)
     .maybeSingle();
   if (!game) return NextResponse.json({ error: "Game not found" }, { status: 404 });
+  if (game.id !== session.gameId) return NextResponse.json({ error: "Not in this game" }, { status: 403 });
 
   // Choose a round: live > latest revealed > earliest pending
   const { data: live } = await supabase
@@ -51,13 +56,19 @@ export async function GET(
 
   const round = live ?? revealed ?? pending ?? null;
   let question = null;
+  let correctIndex: number | null = null;
   if (round?.question_id) {
     const { data: q } = await supabase
       .from("questions")
       .select("id, text, choices, correct_index, difficulty, category")
       .eq("id", round.question_id)
       .maybeSingle();
-    question = q ?? null;
+    if (q) {
+      // The answer only leaves the server in the reveal payload below.
+      const { correct_index, ...rest } = q;
+      question = rest;
+      correctIndex = correct_index;
+    }
   }
 
   // Counts for readiness/answers (used to drive UI state)
@@ -94,20 +105,31 @@ export async function GET(
     pendingCount = pendingRoundCount ?? 0;
   }
 
-  // Answers summary for reveal UI
-  let answersSummary: Array<{ player_id: string; display_name: string | null; correct: boolean | null; points: number | null }> = [];
-  if (round?.id) {
+  // Once the round is revealed: the correct answer, how many picked each choice, and each player's result
+  let reveal: {
+    correct_index: number;
+    correct_answer: string | null;
+    distribution: number[];
+    results: Array<{ player_id: string; display_name: string | null; correct: boolean | null; points: number | null }>;
+  } | null = null;
+  if (round?.id && round.status === "revealed" && question && correctIndex !== null) {
     const { data: ansRows } = await supabase
       .from("answers")
-      .select("player_id, correct, points, players(display_name)")
+      .select("player_id, choice_index, correct, points, players(display_name)")
       .eq("round_id", round.id);
-    answersSummary =
-      ansRows?.map((a) => ({
-        player_id: a.player_id,
-        display_name: (a as any).players?.display_name ?? null,
-        correct: a.correct,
-        points: a.points,
-      })) ?? [];
+    const choices = (question.choices as string[] | null) ?? [];
+    reveal = {
+      correct_index: correctIndex,
+      correct_answer: choices[correctIndex] ?? null,
+      distribution: choices.map((_, idx) => ansRows?.filter((a) => a.choice_index === idx).length ?? 0),
+      results:
+        ansRows?.map((a) => ({
+          player_id: a.player_id,
+          display_name: (a as any).players?.display_name ?? null,
+          correct: a.correct,
+          points: a.points,
+        })) ?? [],
+    };
   }
 
   return NextResponse.json({
@@ -120,6 +142,6 @@ export async function GET(
       readyCount,
       pendingCount,
     },
-    answersSummary,
+    reveal,
   });
 }
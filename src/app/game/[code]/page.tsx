@@ -3,24 +3,70 @@
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 
+import { formatYardLine, otherSide } from "@/lib/fieldPosition";
+import { formatClock, playClockRemaining, TIMEOUTS_PER_HALF } from "@/lib/gameClock";
+import { formatPeriod, OVERTIME_RULES } from "@/lib/overtime";
+import type { OvertimeRule } from "@/lib/overtime";
+import { PENALTIES, PENALTY_TYPES } from "@/lib/penalties";
+import type { PenaltyAgainst, PenaltyType } from "@/lib/penalties";
+import {
+  DEFENSE_PLAYS,
+  defensePlaysFor,
+  offensePlaysFor,
+  PLAY_RISK_LIMIT,
+  PLAYBOOK_PHASES,
+  PLAYBOOK_RISK_BUDGET,
+  playbookFor,
+  playbookProblem,
+  playLabel,
+  SCRIMMAGE_PLAYS,
+} from "@/lib/playbook";
+import type { TeamPlaybook } from "@/lib/playbook";
+import { verifyPlay } from "@/lib/playSeed";
+import type { PlayVerification } from "@/lib/playSeed";
+import type { Draw } from "@/lib/rng";
 import { supabase } from "@/lib/supabaseClient";
+import {
+  ANSWER_RULE_LABELS,
+  ANSWER_RULES,
+  answerRuleFor,
+  CALL_MODE_LABELS,
+  CALL_MODES,
+  callModeFor,
+  effectiveCaptain,
+} from "@/lib/teamRoles";
+import type { AnswerRule, CallMode } from "@/lib/teamRoles";
 
-import type { GameState } from "@/app/actions/game";
+import type { GameAdjustment, GameState } from "@/app/actions/game";
 import {
+  adjustGameStateAction,
+  checkReplayDriftAction,
+  callTimeoutAction,
   chooseTossOptionAction,
   flipCoinAction,
   getGameByCode,
   resetDriveAction,
-  resolveKickoffTouchbackAction,
+  setOvertimeRuleAction,
+  setTeamPlaybookAction,
+  setTeamRolesAction,
   startCoinToss,
+  startSecondHalfAction,
 } from "@/app/actions/game";
 import {
+  answerKickoffQuestionAction,
+  chooseConversionAction,
+  chooseKickoffAction,
   continueAfterRollAction,
+  enforcePlayClockAction,
+  issuePenaltyAction,
   submitPlayCallAction,
   submitQuestionAnswerAction,
   submitRollAction,
+  undoLastPlayAction,
 } from "@/app/actions/play";
+import type { KickoffType } from "@/app/actions/play";
 import type { GameEvent } from "@/app/actions/events";
+import type { ReplayDrift } from "@/lib/gameReplay";
 import { getRecentEvents } from "@/app/actions/events";
 
 type View = "ref" | "team";
@@ -30,7 +76,9 @@ type PlayerInfo = {
   side: "home" | "away" | null;
   display_name: string;
 };
+type RosterPlayer = { id: string; display_name: string; side: "home" | "away" | null };
 type LatestPlay = {
+  seq?: number | null;
   call_offense?: string | null;
   call_defense?: string | null;
   offense_roll?: number | null;
@@ -39,14 +87,56 @@ type LatestPlay = {
   defense_correct?: boolean | null;
   yards?: number | null;
   result_text?: string | null;
+  difficulty?: string | null;
+  seed?: string | null;
+  seed_hash?: string | null;
+  rng_draws?: Draw[] | null;
   created_at?: string;
 };
+type PlayQuestion = {
+  id: string;
+  text: string;
+  choices: string[];
+  difficulty: string | null;
+};
+type AnswerChoices = {
+  questionId: string | null;
+  offense: number | null;
+  defense: number | null;
+};
+type SideSummary = {
+  plays: number;
+  yards: number;
+  turnovers: number;
+};
+type AnswerLine = { playerId: string; side: "home" | "away" | null; right: number; answered: number };
+type HalftimeSummary = {
+  home: SideSummary;
+  away: SideSummary;
+};
+type AdjustForm = {
+  down: string;
+  distance: string;
+  yard_line: string;
+  possession_side: "home" | "away";
+  score_home: string;
+  score_away: string;
+  quarter: string;
+  clock_seconds: string;
+  reason: string;
+};
 type RollPhase = {
   started: boolean;
   offense_roll?: number | null;
   defense_roll?: number | null;
 };
 
+// Scoreboard timeout indicator: filled dots for timeouts left this half.
+const timeoutDots = (remaining: number | null | undefined) => {
+  const left = Math.max(0, Math.min(TIMEOUTS_PER_HALF, remaining ?? TIMEOUTS_PER_HALF));
+  return "●".repeat(left) + "○".repeat(TIMEOUTS_PER_HALF - left);
+};
+
 export default function GamePage() {
   const randomDie = () => Math.floor(Math.random() * 20) + 1;
   const { code } = useParams<{ code: string }>();
@@ -69,18 +159,40 @@ export default function GamePage() {
   const isKickingTeam = game?.phase === "kickoff" && game.possession_side
     ? (playerInfo?.side === (game.possession_side === "home" ? "away" : "home"))
     : false;
+  const isReceivingTeam = game?.phase === "kickoff" && !!playerInfo?.side && playerInfo.side === game.possession_side;
   const isOffense = playerInfo?.side && game?.offense_side && playerInfo.side === game.offense_side;
   const isDefense = playerInfo?.side && game?.defense_side && playerInfo.side === game.defense_side;
-  const offenseOptions = ["Run", "Pass", "Screen", "Trick", "Hail Mary"];
-  const defenseOptions = ["Run stop", "Pass D", "Blitz", "Zone"];
+  const sidePlaybook = playbookFor(game ?? {}, playerInfo?.side);
+  const offenseOptions = offensePlaysFor(sidePlaybook, game?.down);
+  const defenseOptions = defensePlaysFor(sidePlaybook);
   const difficultyOptions = ["easy", "medium", "hard"];
-  const [playCall, setPlayCall] = useState(offenseOptions[0]);
+  const [playCall, setPlayCall] = useState(offenseOptions[0].id);
+  // Kick calls drop out of the list once it's no longer fourth down.
+  const selectedPlayCall = offenseOptions.some((play) => play.id === playCall) ? playCall : offenseOptions[0].id;
   const [playDifficulty, setPlayDifficulty] = useState(difficultyOptions[0]);
-  const [defenseCall, setDefenseCall] = useState(defenseOptions[0]);
+  const [defenseCall, setDefenseCall] = useState(defenseOptions[0].id);
+  const selectedDefenseCall = defenseOptions.some((play) => play.id === defenseCall) ? defenseCall : defenseOptions[0].id;
+  const [roster, setRoster] = useState<RosterPlayer[]>([]);
+  // Only the ref and each side's captain manage that side's playbook and roles.
+  const isMyCaptain =
+    !!playerInfo?.side &&
+    playerInfo.id ===
+      effectiveCaptain(
+        playerInfo.side === "home" ? game?.captain_home : game?.captain_away,
+        roster.filter((p) => p.side === playerInfo.side).map((p) => p.id),
+      );
+  const [answerLines, setAnswerLines] = useState<AnswerLine[]>([]);
+  const [playbookDraft, setPlaybookDraft] = useState<{ side: "home" | "away"; book: TeamPlaybook } | null>(null);
   const [defenseAnswerPending, setDefenseAnswerPending] = useState(false);
   const [questionAnswerPending, setQuestionAnswerPending] = useState(false);
   const [playStatus, setPlayStatus] = useState<{ type: "success" | "error"; message: string } | null>(null);
   const [latestPlay, setLatestPlay] = useState<LatestPlay | null>(null);
+  const [playVerification, setPlayVerification] = useState<{ seedHash: string; result: PlayVerification } | null>(null);
+  const [playQuestion, setPlayQuestion] = useState<PlayQuestion | null>(null);
+  const [halftimeSummary, setHalftimeSummary] = useState<HalftimeSummary | null>(null);
+  const [halftimePending, setHalftimePending] = useState(false);
+  const [conversionPending, setConversionPending] = useState(false);
+  const [answerChoices, setAnswerChoices] = useState<AnswerChoices>({ questionId: null, offense: null, defense: null });
   const [answerStatus, setAnswerStatus] = useState<{ offense: boolean; defense: boolean }>({ offense: false, defense: false });
   const [rollStatus, setRollStatus] = useState<{ offense: boolean; defense: boolean }>({ offense: false, defense: false });
   const [readyStatus, setReadyStatus] = useState<{ offense: boolean; defense: boolean }>({ offense: false, defense: false });
@@ -91,12 +203,24 @@ export default function GamePage() {
     defense: randomDie(),
   });
   const [showDefenseRoll, setShowDefenseRoll] = useState(false);
+  const [clockNow, setClockNow] = useState<number | null>(null);
+  const [adjustForm, setAdjustForm] = useState<AdjustForm | null>(null);
+  const [adjustPending, setAdjustPending] = useState(false);
+  const [replayDrift, setReplayDrift] = useState<ReplayDrift | null>(null);
+  const [penaltyType, setPenaltyType] = useState<PenaltyType>("holding");
+  const [penaltyAgainst, setPenaltyAgainst] = useState<PenaltyAgainst>("offense");
+  const playClockLeft = clockNow === null ? null : playClockRemaining(game?.play_clock_deadline, clockNow);
+  const activeQuestion = playQuestion && playQuestion.id === game?.current_question_id ? playQuestion : null;
+  const currentChoices =
+    activeQuestion && answerChoices.questionId === activeQuestion.id ? answerChoices : { offense: null, defense: null };
+  const offenseChoice = currentChoices.offense;
+  const defenseChoice = currentChoices.defense;
 
   const refreshGameState = async (gameId: string) => {
     const { data } = await supabase
       .from("games")
       .select(
-        "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq",
+        "id, code, status, phase, play_subphase, quarter, clock_seconds, play_clock_seconds, possession_side, offense_side, defense_side, down, distance, yard_line, score_home, score_away, home_team_name, away_team_name, lobby_locked, host_player_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side, current_play_seq, current_question_id, kickoff_type, overtime_rule, overtime_period, overtime_possessions, winner_side, timeouts_home, timeouts_away, clock_stopped, play_clock_deadline, play_seed_hash, playbook_home, playbook_away, call_mode_home, call_mode_away, captain_home, captain_away, answer_rule_home, answer_rule_away",
       )
       .eq("id", gameId)
       .single();
@@ -107,12 +231,15 @@ export default function GamePage() {
   const refreshLatestPlay = async (gameId: string) => {
     const { data } = await supabase
       .from("plays")
-      .select("call_offense, call_defense, offense_roll, defense_roll, offense_correct, defense_correct, yards, result_text, created_at")
+      .select(
+        "seq, call_offense, call_defense, offense_roll, defense_roll, offense_correct, defense_correct, yards, result_text, difficulty, seed, seed_hash, rng_draws, created_at",
+      )
       .eq("game_id", gameId)
+      .eq("voided", false)
       .order("created_at", { ascending: false })
       .limit(1)
       .maybeSingle();
-    if (data) setLatestPlay(data as LatestPlay);
+    setLatestPlay((data as LatestPlay | null) ?? null);
   };
   const refreshAnswerStatus = async (gameId: string, seq?: number | null) => {
     let targetSeq = seq ?? null;
@@ -136,6 +263,124 @@ export default function GamePage() {
     setReadyStatus({ offense: offenseReady, defense: defenseReady });
   };
 
+  // Load the question served for the current play (correct_index stays server-side).
+  useEffect(() => {
+    const questionId = game?.current_question_id;
+    if (!questionId) return;
+    supabase
+      .from("questions")
+      .select("id, text, choices, difficulty")
+      .eq("id", questionId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) setPlayQuestion(data as PlayQuestion);
+      });
+  }, [game?.current_question_id]);
+
+  // Load the sides' rosters for team roles; refs don't call plays.
+  useEffect(() => {
+    const gameId = game?.id;
+    if (!gameId) return;
+    supabase
+      .from("players")
+      .select("id, display_name, side, role")
+      .eq("game_id", gameId)
+      .neq("role", "ref")
+      .order("created_at", { ascending: true })
+      .then(({ data }) => setRoster((data as RosterPlayer[] | null) ?? []));
+  }, [game?.id, game?.captain_home, game?.captain_away]);
+
+  // Recheck the last play's dice against its revealed seed and the hash published when its calls locked.
+  useEffect(() => {
+    const gameId = game?.id;
+    const play = latestPlay;
+    if (!gameId || !play?.seed || !play.seed_hash) return;
+    const seed = play.seed;
+    const seedHash = play.seed_hash;
+    supabase
+      .from("game_events")
+      .select("payload")
+      .eq("game_id", gameId)
+      .eq("type", "play_calls_locked")
+      .eq("payload->>seq", String(play.seq ?? 0))
+      .lte("created_at", play.created_at ?? new Date().toISOString())
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data }) => {
+        const committed = (data?.payload as { seed_hash?: string } | null)?.seed_hash ?? null;
+        return verifyPlay({ ...play, seed }, committed);
+      })
+      .then((result) => setPlayVerification({ seedHash, result }));
+  }, [game?.id, latestPlay]);
+
+  // Play clock countdown from the server deadline; when it hits zero, ask the server to enforce it once.
+  useEffect(() => {
+    const gameId = game?.id;
+    const deadline = game?.play_clock_deadline;
+    if (!gameId || !deadline) return;
+    let enforced = false;
+    const tick = () => {
+      const now = Date.now();
+      setClockNow(now);
+      if (!enforced && Date.parse(deadline) <= now) {
+        enforced = true;
+        enforcePlayClockAction(gameId);
+      }
+    };
+    const interval = setInterval(tick, 1000);
+    const first = setTimeout(tick, 0);
+    return () => {
+      clearInterval(interval);
+      clearTimeout(first);
+    };
+  }, [game?.id, game?.play_clock_deadline]);
+
+  // First-half box score for the halftime summary.
+  useEffect(() => {
+    if (!game?.id || game.phase !== "halftime") return;
+    supabase
+      .from("plays")
+      .select("offense_side, yards, turnover")
+      .eq("game_id", game.id)
+      .eq("voided", false)
+      .then(({ data }) => {
+        if (!data) return;
+        const summary: HalftimeSummary = {
+          home: { plays: 0, yards: 0, turnovers: 0 },
+          away: { plays: 0, yards: 0, turnovers: 0 },
+        };
+        data.forEach((p) => {
+          const side = p.offense_side === "away" ? summary.away : summary.home;
+          side.plays += 1;
+          side.yards += p.yards ?? 0;
+          side.turnovers += p.turnover ? 1 : 0;
+        });
+        setHalftimeSummary(summary);
+      });
+  }, [game?.id, game?.phase]);
+
+  // Who carried the team: each player's answers on plays that stood, at the half and at the final whistle.
+  useEffect(() => {
+    if (!game?.id || (game.phase !== "halftime" && game.phase !== "finished")) return;
+    const gameId = game.id;
+    Promise.all([
+      supabase.from("plays").select("id").eq("game_id", gameId).eq("voided", false),
+      supabase.from("play_answers").select("play_id, player_id, side, correct").eq("game_id", gameId),
+    ]).then(([{ data: plays }, { data: answers }]) => {
+      const counted = new Set((plays ?? []).map((p) => p.id));
+      const lines = new Map<string, AnswerLine>();
+      (answers ?? []).forEach((a) => {
+        if (!counted.has(a.play_id)) return;
+        const line = lines.get(a.player_id) ?? { playerId: a.player_id, side: a.side, right: 0, answered: 0 };
+        line.answered += 1;
+        line.right += a.correct ? 1 : 0;
+        lines.set(a.player_id, line);
+      });
+      setAnswerLines([...lines.values()].sort((a, b) => b.right - a.right || a.answered - b.answered));
+    });
+  }, [game?.id, game?.phase]);
+
   useEffect(() => {
     const load = async () => {
       const g = await getGameByCode(code);
@@ -249,7 +494,8 @@ export default function GamePage() {
           const important = [
             "coin_toss_flipped",
             "coin_toss_choice",
-            "kickoff_touchback",
+            "kickoff_chosen",
+            "kickoff_resolved",
             "coin_toss_result",
             "play_calls_locked",
             "play_resolved",
@@ -260,6 +506,23 @@ export default function GamePage() {
             "rolls_started",
             "rolls_completed",
             "ready_after_roll",
+            "quarter_ended",
+            "halftime",
+            "second_half_started",
+            "conversion_chosen",
+            "conversion_resolved",
+            "game_finished",
+            "overtime_rule_set",
+            "overtime_started",
+            "overtime_possession",
+            "timeout_called",
+            "play_clock_expired",
+            "penalty",
+            "ref_adjustment",
+            "play_undone",
+            "replay_repaired",
+            "playbook_set",
+            "team_roles_set",
           ];
           if (important.includes(evt.type)) {
             refreshGameState(game.id);
@@ -331,7 +594,7 @@ export default function GamePage() {
     if (!game?.id || !playerInfo) return;
     setCoinStatus(null);
     setCoinPending(true);
-    const result = await flipCoinAction(game.id, playerInfo.id, coinCall);
+    const result = await flipCoinAction(game.id, coinCall);
     setCoinPending(false);
     if (!result.success) {
       setCoinStatus({ type: "error", message: result.error ?? "Could not flip coin." });
@@ -347,30 +610,246 @@ export default function GamePage() {
     if (!game?.id || !playerInfo) return;
     setCoinStatus(null);
     setCoinPending(true);
-    const result = await chooseTossOptionAction(game.id, playerInfo.id, winnerChoice);
+    const result = await chooseTossOptionAction(game.id, winnerChoice);
     setCoinPending(false);
     if (!result.success) {
       setCoinStatus({ type: "error", message: result.error ?? "Could not apply choice." });
     }
   };
 
-  const handleKickoffTouchback = async () => {
-    if (!game?.id) return;
+  const handleChooseKickoff = async (kickType: KickoffType) => {
+    if (!game?.id || !playerInfo) return;
     setKickoffStatus(null);
     setKickoffPending(true);
-    const result = await resolveKickoffTouchbackAction(game.id);
+    const result = await chooseKickoffAction(game.id, kickType);
     setKickoffPending(false);
     if (!result.success) {
-      setKickoffStatus({ type: "error", message: result.error ?? "Kickoff failed." });
+      setKickoffStatus({ type: "error", message: result.error });
+    } else if (result.game) {
+      setGame(result.game as GameState);
+    }
+  };
+
+  // During a kickoff offense_side is the return team, so its pick lives in the offense slot.
+  const handleAnswerKickoff = async () => {
+    if (!game?.id || !playerInfo) return;
+    if (offenseChoice === null) {
+      setKickoffStatus({ type: "error", message: "Pick an answer first." });
+      return;
+    }
+    setKickoffStatus(null);
+    setKickoffPending(true);
+    const result = await answerKickoffQuestionAction(game.id, offenseChoice);
+    setKickoffPending(false);
+    if (!result.success) {
+      setKickoffStatus({ type: "error", message: result.error });
+    } else {
+      setKickoffStatus({ type: "success", message: result.message ?? "Kickoff resolved." });
+      if (result.game) setGame(result.game as GameState);
+      await refreshGameState(game.id);
+    }
+  };
+
+  const handleStartSecondHalf = async () => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
+    setPlayStatus(null);
+    setHalftimePending(true);
+    const result = await startSecondHalfAction(game.id);
+    setHalftimePending(false);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not start second half." });
+    }
+    await refreshGameState(game.id);
+  };
+
+  const handleChooseConversion = async (choice: "pat" | "two_point") => {
+    if (!game?.id || !playerInfo) return;
+    setPlayStatus(null);
+    setConversionPending(true);
+    const result = await chooseConversionAction(game.id, choice);
+    setConversionPending(false);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error });
+    } else {
+      setPlayStatus({ type: "success", message: result.message ?? "Try recorded." });
+      if (result.game) setGame(result.game as GameState);
+      await refreshGameState(game.id);
+    }
+  };
+
+  const handleSetOvertimeRule = async (rule: OvertimeRule) => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
+    setPlayStatus(null);
+    const result = await setOvertimeRuleAction(game.id, rule);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not set overtime rules." });
+    }
+    await refreshGameState(game.id);
+  };
+
+  const handleOpenPlaybook = (side: "home" | "away") => {
+    if (!game) return;
+    setPlaybookDraft({ side, book: playbookFor(game, side) });
+  };
+
+  const toggleDraftPlay = (role: "offense" | "defense", id: string) => {
+    if (!playbookDraft) return;
+    const { side, book } = playbookDraft;
+    const kept = book[role].includes(id) ? book[role].filter((play) => play !== id) : [...book[role], id];
+    // Dropping an offensive play drops its risk with it.
+    const risk =
+      role === "offense"
+        ? Object.fromEntries(Object.entries(book.risk).filter(([play]) => kept.includes(play)))
+        : book.risk;
+    setPlaybookDraft({ side, book: { ...book, [role]: kept, risk } });
+  };
+
+  const tuneDraftPlay = (id: string, step: number) => {
+    if (!playbookDraft) return;
+    const { side, book } = playbookDraft;
+    const risk = Math.max(-PLAY_RISK_LIMIT, Math.min(PLAY_RISK_LIMIT, (book.risk[id] ?? 0) + step));
+    setPlaybookDraft({ side, book: { ...book, risk: { ...book.risk, [id]: risk } } });
+  };
+
+  const handleSavePlaybook = async () => {
+    if (!game?.id || !playerInfo || !playbookDraft) return;
+    setPlayStatus(null);
+    const result = await setTeamPlaybookAction(game.id, playbookDraft.book, isRef ? playbookDraft.side : undefined);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not save the playbook." });
+      return;
+    }
+    setPlayStatus({ type: "success", message: "Playbook saved." });
+    setPlaybookDraft(null);
+    await refreshGameState(game.id);
+  };
+
+  const handleSetTeamRoles = async (
+    side: "home" | "away",
+    roles: { mode?: CallMode; captainId?: string; answerRule?: AnswerRule },
+  ) => {
+    if (!game?.id || !playerInfo) return;
+    setPlayStatus(null);
+    const result = await setTeamRolesAction(game.id, roles, isRef ? side : undefined);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not update team roles." });
+    } else {
+      setPlayStatus({ type: "success", message: "Team roles updated." });
+    }
+    await refreshGameState(game.id);
+  };
+
+  const handleCallTimeout = async (side: "home" | "away") => {
+    if (!game?.id || !playerInfo) return;
+    setPlayStatus(null);
+    const result = await callTimeoutAction(game.id, isRef ? side : undefined);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not call timeout." });
+    } else {
+      setPlayStatus({ type: "success", message: "Timeout. Clock stopped." });
+    }
+    await refreshGameState(game.id);
+  };
+
+  const handleIssuePenalty = async () => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
+    setPlayStatus(null);
+    const result = await issuePenaltyAction(game.id, penaltyType, penaltyAgainst);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error });
     } else {
-      setKickoffStatus({ type: "success", message: "Kickoff resolved as touchback." });
+      setPlayStatus({ type: "success", message: result.message ?? "Flag thrown." });
+      if (result.game) setGame(result.game as GameState);
     }
+    await refreshGameState(game.id);
+  };
+
+  const handleUndoLastPlay = async () => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
+    setPlayStatus(null);
+    const result = await undoLastPlayAction(game.id);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error });
+    } else {
+      setPlayStatus({ type: "success", message: result.message ?? "Last play undone." });
+      if (result.game) setGame(result.game as GameState);
+      setAnswerStatus({ offense: false, defense: false });
+    }
+    await refreshGameState(game.id);
+    await refreshLatestPlay(game.id);
+  };
+
+  const handleCheckReplay = async (repair = false) => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
+    setPlayStatus(null);
+    const result = await checkReplayDriftAction(game.id, { repair });
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not replay the event log." });
+      return;
+    }
+    const fields = Object.entries(result.drift ?? {}).map(
+      ([field, d]) => `${field} (log ${String(d?.replayed)}, game ${String(d?.actual)})`,
+    );
+    // Resolutions whose logged snapshot disagrees with their own payload; the replay goes by the payload.
+    const mismatched = (result.mismatches ?? []).map(
+      (m) => `${m.type}${m.seq !== null ? ` #${m.seq}` : ""} (${Object.keys(m.drift).join(", ")})`,
+    );
+    const snapshotNote = mismatched.length > 0 ? `. Logged snapshots off from their plays: ${mismatched.join("; ")}` : "";
+    if (fields.length === 0) {
+      setReplayDrift(null);
+      setPlayStatus({
+        type: mismatched.length > 0 ? "error" : "success",
+        message: `Event log matches the game${snapshotNote}.`,
+      });
+    } else if (repair) {
+      setReplayDrift(null);
+      setPlayStatus({ type: "success", message: `Restored from the event log: ${fields.join(", ")}${snapshotNote}` });
+    } else {
+      setReplayDrift(result.drift ?? null);
+      setPlayStatus({ type: "error", message: `Drift from the event log: ${fields.join(", ")}${snapshotNote}` });
+    }
+    await refreshGameState(game.id);
+  };
+
+  const handleOpenAdjust = () => {
+    if (!game) return;
+    setAdjustForm({
+      down: String(game.down),
+      distance: String(game.distance),
+      yard_line: String(game.yard_line),
+      possession_side: game.possession_side ?? "home",
+      score_home: String(game.score_home),
+      score_away: String(game.score_away),
+      quarter: String(game.quarter),
+      clock_seconds: String(game.clock_seconds),
+      reason: "",
+    });
+  };
+
+  const handleAdjustGameState = async () => {
+    if (!game?.id || !playerInfo || playerInfo.role !== "ref" || !adjustForm) return;
+    const { possession_side, reason, ...numbers } = adjustForm;
+    const changes: GameAdjustment = { possession_side };
+    for (const [field, value] of Object.entries(numbers)) {
+      changes[field as Exclude<keyof GameAdjustment, "possession_side">] = Number(value);
+    }
+    setPlayStatus(null);
+    setAdjustPending(true);
+    const result = await adjustGameStateAction(game.id, changes, reason);
+    setAdjustPending(false);
+    if (!result.success) {
+      setPlayStatus({ type: "error", message: result.error ?? "Could not adjust the game." });
+      return;
+    }
+    setPlayStatus({ type: "success", message: "Game state adjusted." });
+    setAdjustForm(null);
+    if (result.game) setGame(result.game);
   };
 
   const handleResetDrive = async () => {
     if (!game?.id || !playerInfo || playerInfo.role !== "ref") return;
     setPlayStatus(null);
-    const result = await resetDriveAction(game.id, playerInfo.id);
+    const result = await resetDriveAction(game.id);
     if (result.success && result.game) {
       setGame(result.game as GameState);
       setLatestPlay(null);
@@ -383,12 +862,12 @@ export default function GamePage() {
   const handleSubmitOffensePlay = async () => {
     if (!game?.id || !playerInfo) return;
     setPlayStatus(null);
-    const result = await submitPlayCallAction(game.id, playerInfo.id, "offense", playCall || "offense_play", playDifficulty);
+    const result = await submitPlayCallAction(game.id, "offense", selectedPlayCall, playDifficulty);
     if (!result.success) {
       setPlayStatus({ type: "error", message: result.error });
     } else {
       if (result.game) setGame(result.game as GameState);
-      setPlayStatus({ type: "success", message: "Play submitted." });
+      setPlayStatus({ type: "success", message: result.message ?? "Play submitted." });
       await refreshGameState(game.id);
       await refreshAnswerStatus(game.id);
       await refreshLatestPlay(game.id);
@@ -398,28 +877,43 @@ export default function GamePage() {
   const handleSubmitDefensePlay = async () => {
     if (!game?.id || !playerInfo) return;
     setPlayStatus(null);
-    const result = await submitPlayCallAction(game.id, playerInfo.id, "defense", defenseCall || "defense_play", "n/a");
+    const result = await submitPlayCallAction(game.id, "defense", selectedDefenseCall, "n/a");
     if (!result.success) {
       setPlayStatus({ type: "error", message: result.error });
     } else {
       if (result.game) setGame(result.game as GameState);
-      setPlayStatus({ type: "success", message: "Play submitted." });
+      setPlayStatus({ type: "success", message: result.message ?? "Play submitted." });
       await refreshGameState(game.id);
       await refreshAnswerStatus(game.id);
       await refreshLatestPlay(game.id);
     }
   };
 
-  const handleAnswerQuestion = async (isCorrect: boolean) => {
+  const handleSelectAnswer = (side: "offense" | "defense", choiceIndex: number) => {
+    if (!activeQuestion) return;
+    setAnswerChoices((prev) => ({
+      ...(prev.questionId === activeQuestion.id ? prev : { offense: null, defense: null }),
+      questionId: activeQuestion.id,
+      [side]: choiceIndex,
+    }));
+  };
+
+  const handleAnswerQuestion = async (side: "offense" | "defense") => {
     if (!game?.id || !playerInfo) return;
+    const choiceIndex = side === "offense" ? offenseChoice : defenseChoice;
+    if (choiceIndex === null) {
+      setPlayStatus({ type: "error", message: "Pick an answer first." });
+      return;
+    }
     setPlayStatus(null);
-    setQuestionAnswerPending(true);
-    const result = await submitQuestionAnswerAction(game.id, playerInfo.id, isCorrect, undefined, undefined);
-    setQuestionAnswerPending(false);
+    const setPending = side === "offense" ? setQuestionAnswerPending : setDefenseAnswerPending;
+    setPending(true);
+    const result = await submitQuestionAnswerAction(game.id, choiceIndex, isRef ? side : undefined);
+    setPending(false);
     if (!result.success) {
       setPlayStatus({ type: "error", message: result.error });
     } else {
-      setPlayStatus({ type: "success", message: result.message ?? `Answer submitted (${isCorrect ? "correct" : "incorrect"})` });
+      setPlayStatus({ type: "success", message: result.message ?? "Answer locked in." });
       if (result.game) setGame(result.game as GameState);
       if (result.play) setLatestPlay(result.play as LatestPlay);
       await refreshGameState(game.id);
@@ -431,7 +925,7 @@ export default function GamePage() {
   const handleSubmitRoll = async () => {
     if (!game?.id || !playerInfo) return;
     setPlayStatus(null);
-    const result = await submitRollAction(game.id, playerInfo.id, undefined);
+    const result = await submitRollAction(game.id, undefined);
     if (!result.success) {
       setPlayStatus({ type: "error", message: result.error });
     } else {
@@ -443,7 +937,7 @@ export default function GamePage() {
 
   const handleContinueAfterRoll = async () => {
     if (!game?.id || !playerInfo) return;
-    const result = await continueAfterRollAction(game.id, playerInfo.id);
+    const result = await continueAfterRollAction(game.id);
     if (!result.success) {
       setPlayStatus({ type: "error", message: result.error });
     } else {
@@ -540,6 +1034,245 @@ export default function GamePage() {
         </div>
       </div>
 
+      {game.phase === "halftime" ? (
+        <div className="rounded-2xl border border-amber-500/60 bg-amber-500/10 p-6 text-slate-100">
+          <p className="text-xs uppercase tracking-[0.3em] text-amber-300">Halftime</p>
+          <h2 className="mt-2 text-2xl font-semibold text-slate-50">
+            {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away}
+          </h2>
+          {halftimeSummary ? (
+            <div className="mt-4 grid gap-3 text-sm md:grid-cols-2">
+              {(["home", "away"] as const).map((side) => (
+                <div key={side} className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
+                  <p className="font-semibold text-slate-100">
+                    {side === "home" ? game.home_team_name : game.away_team_name}
+                  </p>
+                  <p className="text-xs text-slate-300">
+                    {halftimeSummary[side].plays} plays · {halftimeSummary[side].yards} yards ·{" "}
+                    {halftimeSummary[side].turnovers} turnovers
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : null}
+          <p className="mt-3 text-sm text-amber-100">
+            Second half: {game.second_half_kickoff_side ?? "home"} kicks ·{" "}
+            {otherSide(game.second_half_kickoff_side ?? "home")} receives
+          </p>
+          {isRef ? (
+            <button
+              onClick={handleStartSecondHalf}
+              disabled={halftimePending}
+              className="mt-3 rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+            >
+              {halftimePending ? "Starting..." : "Start second half"}
+            </button>
+          ) : (
+            <p className="mt-3 text-xs text-slate-300">Waiting for the ref to start the second half.</p>
+          )}
+        </div>
+      ) : null}
+
+      {(game.phase === "halftime" || game.phase === "finished") && answerLines.length > 0 ? (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 text-xs text-slate-100">
+          <p className="uppercase tracking-[0.3em] text-emerald-300">Answers by player</p>
+          <div className="mt-3 grid gap-3 md:grid-cols-2">
+            {(["home", "away"] as const).map((side) => (
+              <div key={side} className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
+                <p className="font-semibold text-slate-100">
+                  {side === "home" ? game.home_team_name : game.away_team_name}
+                </p>
+                {answerLines
+                  .filter((line) => line.side === side)
+                  .map((line) => (
+                    <p key={line.playerId} className="mt-1 flex justify-between text-slate-300">
+                      <span>{roster.find((p) => p.id === line.playerId)?.display_name ?? "Former player"}</span>
+                      <span>
+                        {line.right}/{line.answered} right ({Math.round((line.right / line.answered) * 100)}%)
+                      </span>
+                    </p>
+                  ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {PLAYBOOK_PHASES.includes(game.phase) && (isRef || isMyCaptain) ? (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-6 text-slate-100">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-xs uppercase tracking-[0.3em] text-emerald-300">Playbook</p>
+              <p className="mt-1 text-xs text-slate-300">
+                Pick the plays to run and lean on a few. Risk adds a yard when the play works and raises the
+                turnover odds; net risk across the book is capped at +{PLAYBOOK_RISK_BUDGET}. Punts and field goals
+                are always in.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(isRef ? (["home", "away"] as const) : ([playerInfo?.side] as ("home" | "away")[])).map((side) => (
+                <button
+                  key={side}
+                  onClick={() =>
+                    playbookDraft?.side === side ? setPlaybookDraft(null) : handleOpenPlaybook(side)
+                  }
+                  className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-800"
+                >
+                  {playbookDraft?.side === side
+                    ? "Close playbook"
+                    : `Edit ${side === "home" ? game.home_team_name : game.away_team_name} playbook`}
+                </button>
+              ))}
+            </div>
+          </div>
+          {playbookDraft ? (
+            <div className="mt-4 grid gap-4 text-xs md:grid-cols-2">
+              <div>
+                <p className="uppercase tracking-[0.15em] text-slate-400">Offense</p>
+                <div className="mt-2 flex flex-col gap-2">
+                  {SCRIMMAGE_PLAYS.map((play) => {
+                    const enabled = playbookDraft.book.offense.includes(play.id);
+                    const risk = playbookDraft.book.risk[play.id] ?? 0;
+                    return (
+                      <div key={play.id} className="flex items-center justify-between gap-2">
+                        <button
+                          onClick={() => toggleDraftPlay("offense", play.id)}
+                          className={`rounded-lg px-3 py-2 font-semibold transition ${
+                            enabled ? "bg-emerald-500 text-emerald-950" : "bg-slate-800 text-slate-400"
+                          }`}
+                        >
+                          {play.label}
+                        </button>
+                        {enabled ? (
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => tuneDraftPlay(play.id, -1)}
+                              disabled={risk <= -PLAY_RISK_LIMIT}
+                              className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+                            >
+                              −
+                            </button>
+                            <span className="w-16 text-center text-slate-200">
+                              Risk {risk > 0 ? `+${risk}` : risk}
+                            </span>
+                            <button
+                              onClick={() => tuneDraftPlay(play.id, 1)}
+                              disabled={risk >= PLAY_RISK_LIMIT}
+                              className="rounded border border-slate-700 px-2 py-1 disabled:opacity-40"
+                            >
+                              +
+                            </button>
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+              <div>
+                <p className="uppercase tracking-[0.15em] text-slate-400">Defense</p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {DEFENSE_PLAYS.map((play) => (
+                    <button
+                      key={play.id}
+                      onClick={() => toggleDraftPlay("defense", play.id)}
+                      className={`rounded-lg px-3 py-2 font-semibold transition ${
+                        playbookDraft.book.defense.includes(play.id)
+                          ? "bg-blue-500 text-blue-950"
+                          : "bg-slate-800 text-slate-400"
+                      }`}
+                    >
+                      {play.label}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-4 text-slate-300">
+                  Net risk: {Object.values(playbookDraft.book.risk).reduce((sum, risk) => sum + risk, 0)}
+                </p>
+                {playbookProblem(playbookDraft.book) ? (
+                  <p className="mt-1 text-rose-300">{playbookProblem(playbookDraft.book)}</p>
+                ) : null}
+                <button
+                  onClick={handleSavePlaybook}
+                  disabled={!!playbookProblem(playbookDraft.book)}
+                  className="mt-3 rounded-lg bg-emerald-500 px-3 py-2 font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  Save playbook
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+
+      {isRef || playerInfo?.side ? (
+        <div className="rounded-2xl border border-slate-800 bg-slate-900/70 p-4 text-xs text-slate-100">
+          <p className="uppercase tracking-[0.3em] text-emerald-300">Team calls</p>
+          <div className="mt-3 grid gap-3 md:grid-cols-2">
+            {(isRef ? (["home", "away"] as const) : ([playerInfo?.side] as ("home" | "away")[])).map((side) => {
+              const sidePlayers = roster.filter((p) => p.side === side);
+              const captainId = effectiveCaptain(
+                side === "home" ? game.captain_home : game.captain_away,
+                sidePlayers.map((p) => p.id),
+              );
+              const mode = callModeFor(game, side);
+              const answerRule = answerRuleFor(game, side);
+              const canManage = isRef || (!!playerInfo && playerInfo.id === captainId);
+              return (
+                <div key={side} className="rounded-lg border border-slate-800 bg-slate-950/60 px-3 py-2">
+                  <p className="font-semibold text-slate-100">
+                    {side === "home" ? game.home_team_name : game.away_team_name} · {CALL_MODE_LABELS[mode]} ·{" "}
+                    {ANSWER_RULE_LABELS[answerRule]}
+                  </p>
+                  <p className="mt-1 text-slate-300">
+                    Captain: {sidePlayers.find((p) => p.id === captainId)?.display_name ?? "none yet"}
+                    {mode === "rotation" ? " · the call passes to the next teammate every snap" : ""}
+                    {mode === "vote" ? " · everyone votes; the majority call is run" : ""}
+                  </p>
+                  {canManage ? (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <select
+                        value={mode}
+                        onChange={(e) => handleSetTeamRoles(side, { mode: e.target.value as CallMode })}
+                        className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 font-semibold text-slate-100"
+                      >
+                        {CALL_MODES.map((option) => (
+                          <option key={option} value={option}>
+                            {CALL_MODE_LABELS[option]}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={captainId ?? ""}
+                        onChange={(e) => handleSetTeamRoles(side, { captainId: e.target.value })}
+                        className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 font-semibold text-slate-100"
+                      >
+                        {sidePlayers.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            Captain: {p.display_name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={answerRule}
+                        onChange={(e) => handleSetTeamRoles(side, { answerRule: e.target.value as AnswerRule })}
+                        className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-1 font-semibold text-slate-100"
+                      >
+                        {ANSWER_RULES.map((option) => (
+                          <option key={option} value={option}>
+                            Answers: {ANSWER_RULE_LABELS[option]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : null}
+
       {view === "ref" ? (
         <div className="relative rounded-2xl border border-slate-800 bg-slate-900/70 p-6">
           <div className="flex flex-wrap items-center justify-between gap-4">
@@ -548,14 +1281,20 @@ export default function GamePage() {
                 {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away}
               </p>
               <p className="text-xs text-slate-300">
-                Q{game.quarter} · {game.clock_seconds}s · {game.down}&amp;{game.distance} @ {game.yard_line}
+                {formatPeriod(game.quarter, game.overtime_period)} · {formatClock(game.clock_seconds)} · {game.down}&amp;{game.distance} @ {formatYardLine(game.yard_line)}
               </p>
               <p className="text-xs text-slate-300">
                 Possession: {game.possession_side ?? "TBD"} · Phase: {game.phase}
               </p>
+              <p className="text-xs text-slate-300">
+                Timeouts · {game.home_team_name} {timeoutDots(game.timeouts_home)} · {game.away_team_name}{" "}
+                {timeoutDots(game.timeouts_away)}
+                {game.clock_stopped ? " · Clock stopped" : ""}
+                {game.play_clock_deadline && playClockLeft !== null ? ` · Play clock ${playClockLeft}s` : ""}
+              </p>
             </div>
             <div className="flex gap-2">
-              {game.phase === "lobby" ? (
+              {game.phase === "lobby" && playerInfo?.role === "ref" ? (
                 <button
                   onClick={handleStartCoinToss}
                   className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-amber-950 transition hover:bg-amber-300"
@@ -563,6 +1302,49 @@ export default function GamePage() {
                   Start coin toss
                 </button>
               ) : null}
+              {playerInfo?.role === "ref" ? (
+                <select
+                  value={game.overtime_rule ?? "sudden_death"}
+                  onChange={(e) => handleSetOvertimeRule(e.target.value as OvertimeRule)}
+                  disabled={(game.overtime_period ?? 0) > 0}
+                  className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-2 text-xs font-semibold text-slate-100 disabled:opacity-60"
+                >
+                  {OVERTIME_RULES.map((rule) => (
+                    <option key={rule} value={rule}>
+                      OT: {rule === "college" ? "college (from the 25)" : "sudden death"}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              {playerInfo?.role === "ref" && game.phase === "drive" && game.play_subphase === "play_call" ? (
+                <div className="flex items-center gap-1">
+                  <select
+                    value={penaltyType}
+                    onChange={(e) => setPenaltyType(e.target.value as PenaltyType)}
+                    className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-2 text-xs font-semibold text-slate-100"
+                  >
+                    {PENALTY_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {PENALTIES[type].label} ({PENALTIES[type].yards})
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={penaltyAgainst}
+                    onChange={(e) => setPenaltyAgainst(e.target.value as PenaltyAgainst)}
+                    className="rounded-lg border border-slate-700 bg-slate-900 px-2 py-2 text-xs font-semibold text-slate-100"
+                  >
+                    <option value="offense">on offense</option>
+                    <option value="defense">on defense</option>
+                  </select>
+                  <button
+                    onClick={handleIssuePenalty}
+                    className="rounded-lg bg-yellow-400 px-3 py-2 text-xs font-semibold text-yellow-950 transition hover:bg-yellow-300"
+                  >
+                    Flag
+                  </button>
+                </div>
+              ) : null}
               {playerInfo?.role === "ref" ? (
                 <button
                   onClick={handleResetDrive}
@@ -571,14 +1353,98 @@ export default function GamePage() {
                   Reset drive (ref)
                 </button>
               ) : null}
+              {playerInfo?.role === "ref" && latestPlay ? (
+                <button
+                  onClick={handleUndoLastPlay}
+                  className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-800"
+                >
+                  Undo last play (ref)
+                </button>
+              ) : null}
+              {playerInfo?.role === "ref" ? (
+                <button
+                  onClick={() => (adjustForm ? setAdjustForm(null) : handleOpenAdjust())}
+                  className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-800"
+                >
+                  {adjustForm ? "Close console" : "Adjust state (ref)"}
+                </button>
+              ) : null}
+              {playerInfo?.role === "ref" ? (
+                <button
+                  onClick={() => handleCheckReplay(!!replayDrift)}
+                  className="rounded-lg border border-slate-700 px-3 py-2 text-xs font-semibold text-slate-100 transition hover:bg-slate-800"
+                >
+                  {replayDrift ? "Repair from log (ref)" : "Check log (ref)"}
+                </button>
+              ) : null}
             </div>
           </div>
 
+          {playerInfo?.role === "ref" && adjustForm ? (
+            <div className="mt-4 rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-xs text-slate-200">
+              <p className="font-semibold text-slate-100">Ref console</p>
+              <div className="mt-3 grid grid-cols-2 gap-2 md:grid-cols-4">
+                {(
+                  [
+                    ["down", "Down"],
+                    ["distance", "Distance"],
+                    ["yard_line", "Yard line (0 home goal · 100 away goal)"],
+                    ["score_home", `${game.home_team_name} score`],
+                    ["score_away", `${game.away_team_name} score`],
+                    ["quarter", "Quarter"],
+                    ["clock_seconds", "Clock (seconds)"],
+                  ] as const
+                ).map(([field, label]) => (
+                  <label key={field} className="flex flex-col gap-1">
+                    <span className="text-slate-400">{label}</span>
+                    <input
+                      type="number"
+                      value={adjustForm[field]}
+                      onChange={(e) => setAdjustForm({ ...adjustForm, [field]: e.target.value })}
+                      className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+                    />
+                  </label>
+                ))}
+                <label className="flex flex-col gap-1">
+                  <span className="text-slate-400">Possession</span>
+                  <select
+                    value={adjustForm.possession_side}
+                    onChange={(e) =>
+                      setAdjustForm({ ...adjustForm, possession_side: e.target.value as "home" | "away" })
+                    }
+                    className="rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+                  >
+                    <option value="home">{game.home_team_name}</option>
+                    <option value="away">{game.away_team_name}</option>
+                  </select>
+                </label>
+              </div>
+              <input
+                type="text"
+                value={adjustForm.reason}
+                onChange={(e) => setAdjustForm({ ...adjustForm, reason: e.target.value })}
+                placeholder="Reason (required, shown in the event log)"
+                className="mt-3 w-full rounded-md border border-slate-700 bg-slate-900 px-2 py-1 text-slate-100"
+              />
+              <button
+                onClick={handleAdjustGameState}
+                disabled={adjustPending || !adjustForm.reason.trim()}
+                className="mt-3 rounded-lg bg-amber-400 px-3 py-2 text-xs font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+              >
+                {adjustPending ? "Applying..." : "Apply adjustment"}
+              </button>
+            </div>
+          ) : null}
+
           <div className="mt-6 grid gap-4 lg:grid-cols-[2fr,1fr]">
             <div className="relative overflow-hidden rounded-xl border border-slate-800 bg-gradient-to-b from-slate-900 to-slate-950 p-4">
               <div className="mb-2 flex items-center justify-between text-xs text-slate-300">
-                <span>Field</span>
-                <span>Ball on {game.yard_line} | Down {game.down}&amp;{game.distance}</span>
+                <span>
+                  Field · {game.home_team_name} goal ← → {game.away_team_name} goal
+                </span>
+                <span>
+                  Ball on {formatYardLine(game.yard_line)} | Down {game.down}&amp;{game.distance}
+                </span>
               </div>
               <div className="relative h-64 rounded-lg bg-[linear-gradient(90deg,rgba(255,255,255,0.04)_1px,transparent_1px),linear-gradient(0deg,rgba(255,255,255,0.04)_1px,transparent_1px)] bg-[length:20px_100%,100%_20px]">
                 <div
@@ -588,7 +1454,7 @@ export default function GamePage() {
                 <div
                   className="absolute top-0 h-full w-[6px] -translate-x-1/2 rounded-full bg-amber-400 shadow-[0_0_12px_rgba(251,191,36,0.6)]"
                   style={{ left: `${(game.yard_line / 100) * 100}%` }}
-                  title={`Ball on ${game.yard_line}`}
+                  title={`Ball on ${formatYardLine(game.yard_line)}`}
                 />
               </div>
             </div>
@@ -636,40 +1502,51 @@ export default function GamePage() {
                   </div>
                   <div className="mt-1 grid gap-2 text-[11px] text-emerald-50 md:grid-cols-2">
                     <div>
-                      Off: {latestPlay.call_offense ?? "-"} | Roll: {latestPlay.offense_roll ?? "-"} |{" "}
+                      Off: {playLabel("offense", latestPlay.call_offense)} | Roll: {latestPlay.offense_roll ?? "-"} |{" "}
                       {latestPlay.offense_correct ? "Correct" : "Incorrect"}
                     </div>
                     <div>
-                      Def: {latestPlay.call_defense ?? "-"} | Roll: {latestPlay.defense_roll ?? "-"} |{" "}
+                      Def: {playLabel("defense", latestPlay.call_defense)} | Roll: {latestPlay.defense_roll ?? "-"} |{" "}
                       {latestPlay.defense_correct ? "Correct" : "Incorrect"}
                     </div>
                   </div>
                   <div className="mt-1 text-sm font-semibold text-emerald-200">Yards: {latestPlay.yards ?? 0}</div>
+                  {latestPlay.seed_hash && playVerification?.seedHash === latestPlay.seed_hash ? (
+                    <div
+                      className="mt-1 text-[11px] text-emerald-200"
+                      title={`seed ${latestPlay.seed} · sha256 ${latestPlay.seed_hash}`}
+                    >
+                      {Object.values(playVerification.result).every(Boolean)
+                        ? `Dice verified against the seed committed before the call: ${latestPlay.seed_hash.slice(0, 12)}…`
+                        : `Dice do not match the revealed seed: ${Object.entries(playVerification.result)
+                            .filter(([, ok]) => !ok)
+                            .map(([check]) => check)
+                            .join(", ")}`}
+                    </div>
+                  ) : null}
                 </div>
               ) : null}
+              {game.play_seed_hash ? (
+                <p className="mt-2 text-[11px] text-slate-400" title={game.play_seed_hash}>
+                  Next play&apos;s dice committed: {game.play_seed_hash.slice(0, 12)}…
+                </p>
+              ) : null}
               {game.phase === "kickoff" ? (
                 <div className="mt-3 rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-xs text-amber-100">
-                  Kickoff pending. Press to resolve as touchback for now.
-                  <div className="mt-2 flex gap-2">
-                    <button
-                      onClick={handleKickoffTouchback}
-                      disabled={kickoffPending}
-                      className="rounded-md bg-amber-400 px-3 py-1 font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+                  {game.play_subphase === "kick_return"
+                    ? `${game.possession_side === "home" ? "away" : "home"} ${game.kickoff_type ?? "normal"} kick · ${game.possession_side} answering to return it`
+                    : `${game.possession_side === "home" ? "away" : "home"} choosing the kickoff`}
+                  {kickoffStatus ? (
+                    <div
+                      className={`mt-2 rounded-md px-2 py-1 ${
+                        kickoffStatus.type === "success"
+                          ? "bg-emerald-500/20 text-emerald-100"
+                          : "bg-rose-500/20 text-rose-100"
+                      }`}
                     >
-                      {kickoffPending ? "Resolving..." : "Kickoff (touchback)"}
-                    </button>
-                    {kickoffStatus ? (
-                      <span
-                        className={`rounded-md px-2 py-1 ${
-                          kickoffStatus.type === "success"
-                            ? "bg-emerald-500/20 text-emerald-100"
-                            : "bg-rose-500/20 text-rose-100"
-                        }`}
-                      >
-                        {kickoffStatus.message}
-                      </span>
-                    ) : null}
-                  </div>
+                      {kickoffStatus.message}
+                    </div>
+                  ) : null}
                 </div>
               ) : null}
             </div>
@@ -678,7 +1555,9 @@ export default function GamePage() {
           {game.phase === "coin_toss" ? (
             <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 backdrop-blur">
               <div className="w-full max-w-lg rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-amber-500/10">
-                <p className="text-xs uppercase tracking-[0.3em] text-amber-300">Coin toss</p>
+                <p className="text-xs uppercase tracking-[0.3em] text-amber-300">
+                  {(game.overtime_period ?? 0) > 0 ? `Overtime coin toss · ${formatPeriod(game.quarter, game.overtime_period)}` : "Coin toss"}
+                </p>
                 <h2 className="mt-2 text-xl font-semibold text-slate-50">
                   Away calls it. Winner chooses receive, kick, or defer.
                 </h2>
@@ -780,8 +1659,14 @@ export default function GamePage() {
         <div className="relative rounded-2xl border border-slate-800 bg-slate-900/70 p-6">
           <p className="text-sm font-semibold text-slate-100">Team view</p>
           <p className="text-xs text-slate-300">
-            Score {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away} | Q{game.quarter} ·{" "}
-            {game.clock_seconds}s · {game.down}&amp;{game.distance} @ {game.yard_line}
+            Score {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away} | {formatPeriod(game.quarter, game.overtime_period)} ·{" "}
+            {formatClock(game.clock_seconds)} · {game.down}&amp;{game.distance} @ {formatYardLine(game.yard_line)}
+          </p>
+          <p className="text-xs text-slate-300">
+            Timeouts · {game.home_team_name} {timeoutDots(game.timeouts_home)} · {game.away_team_name}{" "}
+            {timeoutDots(game.timeouts_away)}
+            {game.clock_stopped ? " · Clock stopped" : ""}
+            {game.play_clock_deadline && playClockLeft !== null ? ` · Play clock ${playClockLeft}s` : ""}
           </p>
           <div className="mt-2 rounded-lg border border-slate-800/70 bg-slate-950/60 px-3 py-2 text-xs text-slate-200">
             {game.phase === "coin_toss" ? (
@@ -797,8 +1682,29 @@ export default function GamePage() {
               </span>
             ) : game.phase === "kickoff" ? (
               <span>
-                Kickoff pending (touchback for now). Kickoff team:{" "}
-                {game.possession_side === "home" ? "away" : "home"} · Receiving: {game.possession_side}
+                Kickoff · Kicking: {game.possession_side === "home" ? "away" : "home"} · Receiving:{" "}
+                {game.possession_side}{" "}
+                {game.play_subphase === "kick_return"
+                  ? isReceivingTeam || isRef
+                    ? "Answer to return the kick."
+                    : "Waiting for the return team."
+                  : isKickingTeam || isRef
+                    ? "Call the kick."
+                    : "Waiting for the kick call."}
+              </span>
+            ) : game.phase === "conversion" && game.play_subphase === "choice" ? (
+              <span>
+                Touchdown {game.offense_side}! {isOffense || isRef ? "Choose the try below." : "Waiting for the try choice."}
+              </span>
+            ) : game.phase === "halftime" ? (
+              <span>
+                Halftime · {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away}
+              </span>
+            ) : game.phase === "finished" ? (
+              <span>
+                Final{(game.overtime_period ?? 0) > 0 ? ` (${formatPeriod(game.quarter, game.overtime_period)})` : ""} ·{" "}
+                {game.home_team_name} {game.score_home} — {game.away_team_name} {game.score_away}
+                {game.winner_side ? ` · ${game.winner_side === "home" ? game.home_team_name : game.away_team_name} win` : ""}
               </span>
             ) : (
               <span>
@@ -807,6 +1713,30 @@ export default function GamePage() {
               </span>
             )}
           </div>
+          {game.phase === "conversion" && game.play_subphase === "choice" && (isOffense || isRef) ? (
+            <div className="mt-4 rounded-xl border border-emerald-500/50 bg-emerald-500/10 p-4 text-sm text-slate-200">
+              <p className="text-xs uppercase tracking-[0.2em] text-emerald-300">Try after touchdown</p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleChooseConversion("pat")}
+                  disabled={conversionPending}
+                  className="rounded-lg bg-emerald-500 px-3 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:opacity-60"
+                >
+                  Extra point (1)
+                </button>
+                <button
+                  onClick={() => handleChooseConversion("two_point")}
+                  disabled={conversionPending}
+                  className="rounded-lg bg-amber-400 px-3 py-2 text-sm font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+                >
+                  Two-point try (2)
+                </button>
+              </div>
+              <p className="mt-2 text-[11px] text-slate-400">
+                The two-point try is a full play from the 2: call, question and roll.
+              </p>
+            </div>
+          ) : null}
           <div className="mt-4 grid gap-3 md:grid-cols-2">
             <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-4 text-sm text-slate-200">
               <div className="flex items-center justify-between">
@@ -826,20 +1756,39 @@ export default function GamePage() {
                   {playStatus.message}
                 </div>
               ) : null}
+              {game.phase === "drive" && game.play_subphase === "play_call" && (isRef || playerInfo?.side) ? (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {(["home", "away"] as const)
+                    .filter((side) => isRef || playerInfo?.side === side)
+                    .map((side) => (
+                      <button
+                        key={side}
+                        onClick={() => handleCallTimeout(side)}
+                        disabled={
+                          !!game.clock_stopped ||
+                          (side === "home" ? game.timeouts_home : game.timeouts_away) === 0
+                        }
+                        className="rounded-lg border border-slate-700 px-3 py-1 text-xs font-semibold text-slate-100 transition hover:bg-slate-800 disabled:opacity-50"
+                      >
+                        Timeout{isRef ? ` (${side})` : ""}
+                      </button>
+                    ))}
+                </div>
+              ) : null}
               {isOffense && game.play_subphase === "play_call" ? (
                 <div className="mt-3 flex flex-col gap-3">
                   <div>
                     <p className="text-xs uppercase tracking-[0.15em] text-slate-400">Play</p>
                     <div className="mt-2 flex flex-wrap gap-2">
-                      {offenseOptions.map((opt) => (
+                      {offenseOptions.map((play) => (
                         <button
-                          key={opt}
-                          onClick={() => setPlayCall(opt)}
+                          key={play.id}
+                          onClick={() => setPlayCall(play.id)}
                           className={`rounded-lg px-3 py-2 text-sm font-semibold transition ${
-                            playCall === opt ? "bg-emerald-500 text-emerald-950" : "bg-slate-800 text-slate-100"
+                            selectedPlayCall === play.id ? "bg-emerald-500 text-emerald-950" : "bg-slate-800 text-slate-100"
                           }`}
                         >
-                          {opt}
+                          {play.label}
                         </button>
                       ))}
                     </div>
@@ -873,15 +1822,15 @@ export default function GamePage() {
                   <div>
                     <p className="text-xs uppercase tracking-[0.15em] text-slate-400">Defense call</p>
                     <div className="mt-2 flex flex-wrap gap-2">
-                      {defenseOptions.map((opt) => (
+                      {defenseOptions.map((play) => (
                         <button
-                          key={opt}
-                          onClick={() => setDefenseCall(opt)}
+                          key={play.id}
+                          onClick={() => setDefenseCall(play.id)}
                           className={`rounded-lg px-3 py-2 text-sm font-semibold transition ${
-                            defenseCall === opt ? "bg-blue-500 text-blue-950" : "bg-slate-800 text-slate-100"
+                            selectedDefenseCall === play.id ? "bg-blue-500 text-blue-950" : "bg-slate-800 text-slate-100"
                           }`}
                         >
-                          {opt}
+                          {play.label}
                         </button>
                       ))}
                     </div>
@@ -906,66 +1855,69 @@ export default function GamePage() {
                   {answerStatus.offense ? "✓" : "…"} · Def: {answerStatus.defense ? "✓" : "…"}
                 </span>
               </div>
-              <p className="mt-2 text-sm text-slate-300">
-                (Placeholder) Answer correct or incorrect to resolve play. Timer off for now.
-              </p>
-              {game.play_subphase === "question" ? (
+              {activeQuestion ? (
+                <div className="mt-2">
+                  <p className="text-sm font-semibold text-slate-100">{activeQuestion.text}</p>
+                  <p className="text-[11px] uppercase tracking-[0.15em] text-slate-400">
+                    {activeQuestion.difficulty ?? "mixed"} question
+                  </p>
+                </div>
+              ) : (
+                <p className="mt-2 text-sm text-slate-300">The question appears once both play calls are locked.</p>
+              )}
+              {game.play_subphase === "question" && activeQuestion ? (
                 <div className="mt-3 flex flex-col gap-3">
                   {(isOffense || isRef) && (
                     <div>
                       <p className="text-xs uppercase tracking-[0.15em] text-slate-400">Offense answer</p>
-                      <div className="mt-2 flex gap-2">
-                        <button
-                          onClick={() => handleAnswerQuestion(true)}
-                          disabled={questionAnswerPending}
-                          className="rounded-lg bg-emerald-500 px-3 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:opacity-60"
-                        >
-                          {questionAnswerPending ? "Submitting..." : "Mark correct"}
-                        </button>
-                        <button
-                          onClick={() => handleAnswerQuestion(false)}
-                          disabled={questionAnswerPending}
-                          className="rounded-lg bg-rose-500 px-3 py-2 text-sm font-semibold text-rose-50 transition hover:bg-rose-400 disabled:opacity-60"
-                        >
-                          Incorrect / Timeout
-                        </button>
+                      <div className="mt-2 grid gap-2">
+                        {activeQuestion.choices.map((choice, idx) => (
+                          <button
+                            key={idx}
+                            onClick={() => handleSelectAnswer("offense", idx)}
+                            disabled={answerStatus.offense}
+                            className={`rounded-lg px-3 py-2 text-left text-sm font-semibold transition disabled:opacity-60 ${
+                              offenseChoice === idx ? "bg-emerald-500 text-emerald-950" : "bg-slate-800 text-slate-100"
+                            }`}
+                          >
+                            {choice}
+                          </button>
+                        ))}
                       </div>
+                      <button
+                        onClick={() => handleAnswerQuestion("offense")}
+                        disabled={questionAnswerPending || answerStatus.offense || offenseChoice === null}
+                        className="mt-2 rounded-lg bg-emerald-500 px-3 py-2 text-sm font-semibold text-emerald-950 transition hover:bg-emerald-400 disabled:opacity-60"
+                      >
+                        {questionAnswerPending ? "Submitting..." : answerStatus.offense ? "Answer locked" : "Lock in answer"}
+                      </button>
                     </div>
                   )}
 
                   {(isDefense || isRef) && (
                     <div>
                       <p className="text-xs uppercase tracking-[0.15em] text-slate-400">Defense answer</p>
-                      <div className="mt-2 flex gap-2">
-                        <button
-                          onClick={async () => {
-                            setDefenseAnswerPending(true);
-                            await submitQuestionAnswerAction(game.id, playerInfo!.id, true, "defense");
-                            setDefenseAnswerPending(false);
-                            await refreshGameState(game.id);
-                            await refreshLatestPlay(game.id);
-                            await refreshAnswerStatus(game.id);
-                          }}
-                          disabled={defenseAnswerPending}
-                          className="rounded-lg bg-blue-500 px-3 py-2 text-sm font-semibold text-blue-950 transition hover:bg-blue-400 disabled:opacity-60"
-                        >
-                          Mark defense correct
-                        </button>
-                        <button
-                          onClick={async () => {
-                            setDefenseAnswerPending(true);
-                            await submitQuestionAnswerAction(game.id, playerInfo!.id, false, "defense");
-                            setDefenseAnswerPending(false);
-                            await refreshGameState(game.id);
-                            await refreshLatestPlay(game.id);
-                            await refreshAnswerStatus(game.id);
-                          }}
-                          disabled={defenseAnswerPending}
-                          className="rounded-lg bg-slate-700 px-3 py-2 text-sm font-semibold text-slate-100 transition hover:bg-slate-600 disabled:opacity-60"
-                        >
-                          Defense incorrect
-                        </button>
+                      <div className="mt-2 grid gap-2">
+                        {activeQuestion.choices.map((choice, idx) => (
+                          <button
+                            key={idx}
+                            onClick={() => handleSelectAnswer("defense", idx)}
+                            disabled={answerStatus.defense}
+                            className={`rounded-lg px-3 py-2 text-left text-sm font-semibold transition disabled:opacity-60 ${
+                              defenseChoice === idx ? "bg-blue-500 text-blue-950" : "bg-slate-800 text-slate-100"
+                            }`}
+                          >
+                            {choice}
+                          </button>
+                        ))}
                       </div>
+                      <button
+                        onClick={() => handleAnswerQuestion("defense")}
+                        disabled={defenseAnswerPending || answerStatus.defense || defenseChoice === null}
+                        className="mt-2 rounded-lg bg-blue-500 px-3 py-2 text-sm font-semibold text-blue-950 transition hover:bg-blue-400 disabled:opacity-60"
+                      >
+                        {defenseAnswerPending ? "Submitting..." : answerStatus.defense ? "Answer locked" : "Lock in answer"}
+                      </button>
                     </div>
                   )}
                 </div>
@@ -1063,7 +2015,9 @@ export default function GamePage() {
           {["coin_toss", "coin_toss_choice"].includes(game.phase) ? (
             <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 backdrop-blur">
               <div className="w-full max-w-lg rounded-2xl border border-slate-800 bg-slate-900 p-6 shadow-2xl shadow-amber-500/10">
-                <p className="text-xs uppercase tracking-[0.3em] text-amber-300">Coin toss</p>
+                <p className="text-xs uppercase tracking-[0.3em] text-amber-300">
+                  {(game.overtime_period ?? 0) > 0 ? `Overtime coin toss · ${formatPeriod(game.quarter, game.overtime_period)}` : "Coin toss"}
+                </p>
                 <h2 className="mt-2 text-xl font-semibold text-slate-50">
                   Away calls it. Winner chooses receive, kick, or defer.
                 </h2>
@@ -1141,36 +2095,76 @@ export default function GamePage() {
                 </div>
               </div>
             </div>
-          ) : game.phase === "kickoff" && (isRef || isKickingTeam) ? (
+          ) : game.phase === "kickoff" &&
+            (isRef || (game.play_subphase === "kick_return" ? isReceivingTeam : isKickingTeam)) ? (
             <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/60 backdrop-blur">
               <div className="w-full max-w-md rounded-2xl border border-amber-500/60 bg-slate-900 p-6 shadow-2xl shadow-amber-500/10">
                 <p className="text-xs uppercase tracking-[0.3em] text-amber-300">Kickoff</p>
-                <h2 className="mt-2 text-xl font-semibold text-slate-50">
-                  Kickoff pending. Trigger touchback (stub) or wait for animation.
-                </h2>
                 <p className="mt-2 text-sm text-amber-100">
                   Kicking: {game.possession_side === "home" ? "away" : "home"} · Receiving: {game.possession_side}
                 </p>
-                <div className="mt-4 flex items-center gap-2">
-                  <button
-                    onClick={handleKickoffTouchback}
-                    disabled={kickoffPending}
-                    className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+                {game.play_subphase === "kick_return" ? (
+                  <div className="mt-3">
+                    <h2 className="text-lg font-semibold text-slate-50">
+                      {game.kickoff_type ?? "normal"} kick — answer to set up the return
+                    </h2>
+                    {activeQuestion ? (
+                      <>
+                        <p className="mt-2 text-sm font-semibold text-slate-100">{activeQuestion.text}</p>
+                        <div className="mt-3 grid gap-2">
+                          {activeQuestion.choices.map((choice, idx) => (
+                            <button
+                              key={idx}
+                              onClick={() => handleSelectAnswer("offense", idx)}
+                              disabled={kickoffPending}
+                              className={`rounded-lg px-3 py-2 text-left text-sm font-semibold transition disabled:opacity-60 ${
+                                offenseChoice === idx ? "bg-amber-400 text-amber-950" : "bg-slate-800 text-slate-100"
+                              }`}
+                            >
+                              {choice}
+                            </button>
+                          ))}
+                        </div>
+                        <button
+                          onClick={handleAnswerKickoff}
+                          disabled={kickoffPending || offenseChoice === null}
+                          className="mt-3 rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+                        >
+                          {kickoffPending ? "Returning..." : "Lock in and return"}
+                        </button>
+                      </>
+                    ) : (
+                      <p className="mt-2 text-sm text-slate-300">Loading question...</p>
+                    )}
+                  </div>
+                ) : (
+                  <div className="mt-3">
+                    <h2 className="text-lg font-semibold text-slate-50">Call the kick</h2>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {(["normal", "squib", "onside"] as KickoffType[]).map((kickType) => (
+                        <button
+                          key={kickType}
+                          onClick={() => handleChooseKickoff(kickType)}
+                          disabled={kickoffPending}
+                          className="rounded-lg bg-amber-400 px-4 py-2 text-sm font-semibold capitalize text-amber-950 transition hover:bg-amber-300 disabled:opacity-60"
+                        >
+                          {kickType}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {kickoffStatus ? (
+                  <div
+                    className={`mt-3 rounded-md px-2 py-1 text-xs ${
+                      kickoffStatus.type === "success"
+                        ? "bg-emerald-500/20 text-emerald-100"
+                        : "bg-rose-500/20 text-rose-100"
+                    }`}
                   >
-                    {kickoffPending ? "Resolving..." : "Kickoff (touchback)"}
-                  </button>
-                  {kickoffStatus ? (
-                    <span
-                      className={`rounded-md px-2 py-1 text-xs ${
-                        kickoffStatus.type === "success"
-                          ? "bg-emerald-500/20 text-emerald-100"
-                          : "bg-rose-500/20 text-rose-100"
-                      }`}
-                    >
-                      {kickoffStatus.message}
-                    </span>
-                  ) : null}
-                </div>
+                    {kickoffStatus.message}
+                  </div>
+                ) : null}
               </div>
             </div>
           ) : null}
@@ -4,7 +4,7 @@
 import { useEffect, useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 
-import { supabase } from "@/lib/supabaseClient";
+import { resetGameToken, supabase } from "@/lib/supabaseClient";
 
 import {
   createLobbyAction,
@@ -218,6 +218,7 @@ export default function Home() {
         if (typeof window !== "undefined") {
           localStorage.removeItem(STORAGE_KEY);
         }
+        resetGameToken();
         setActiveLobby({ gameId: result.gameId, code: result.code, playerId: result.playerId });
         setStatus({
           type: "success",
@@ -238,6 +239,7 @@ export default function Home() {
         if (typeof window !== "undefined") {
           localStorage.removeItem(STORAGE_KEY);
         }
+        resetGameToken();
         setActiveLobby({ gameId: result.gameId, code: result.code, playerId: result.playerId });
         setStatus({
           type: "success",
@@ -254,7 +256,7 @@ export default function Home() {
 
   const handleStartGame = async () => {
     if (!activeLobby?.gameId || !myPlayer) return;
-    const result = await startGameAction(activeLobby.gameId, myPlayer.id);
+    const result = await startGameAction(activeLobby.gameId);
     if (result.success) {
       setStatus({ type: "success", message: "Game started!" });
       const code = activeLobby.code || gameMeta?.code;
@@ -270,7 +272,7 @@ export default function Home() {
     if (!activeLobby?.gameId || !myPlayer) return;
     const nextReady = !myPlayer.ready;
     setPlayers((prev) => prev.map((p) => (p.id === myPlayer.id ? { ...p, ready: nextReady } : p)));
-    const result = await setReadyAction(myPlayer.id, activeLobby.gameId, nextReady);
+    const result = await setReadyAction(activeLobby.gameId, nextReady);
     if (!result.success) {
       setStatus({ type: "error", message: result.error });
     }
@@ -278,7 +280,8 @@ export default function Home() {
 
   const handleLeave = async () => {
     if (!activeLobby?.gameId || !myPlayer) return;
-    await leaveLobbyAction(myPlayer.id, activeLobby.gameId);
+    await leaveLobbyAction(activeLobby.gameId);
+    resetGameToken();
     setActiveLobby(null);
     setPlayers([]);
     setGameMeta(null);
@@ -290,14 +293,14 @@ export default function Home() {
 
   const handleKick = async (playerId: string) => {
     if (!activeLobby?.gameId || !myPlayer || playerId === myPlayer.id) return;
-    await kickPlayerAction(myPlayer.id, playerId, activeLobby.gameId);
+    await kickPlayerAction(playerId, activeLobby.gameId);
   };
 
   const toggleLobbyLock = async () => {
     if (!activeLobby?.gameId || !myPlayer || !gameMeta) return;
     setLockPending(true);
     const next = !gameMeta.lobby_locked;
-    await setLobbyLockedAction(myPlayer.id, activeLobby.gameId, next);
+    await setLobbyLockedAction(activeLobby.gameId, next);
     setLockPending(false);
   };
 
@@ -2,9 +2,10 @@
 
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { supabase } from "@/lib/supabaseClient";
+import { resetGameToken, supabase } from "@/lib/supabaseClient";
 import type { GameState } from "@/app/actions/game";
 import { getGameByCode } from "@/app/actions/game";
+import { leaveLobbyAction } from "@/app/actions/lobby";
 import {
   startTriviaRound,
   submitTriviaAnswer,
@@ -22,10 +23,17 @@ type TriviaQuestion = {
   id: string;
   text: string;
   choices: string[];
-  correct_index: number;
   difficulty: string;
 };
 
+// Sent only once the round is revealed; until then the client has no way to know the answer.
+type TriviaReveal = {
+  correct_index: number;
+  correct_answer: string | null;
+  distribution: number[]; // answers per choice, by index
+  results: { player_id: string; display_name: string | null; correct: boolean | null; points: number | null }[];
+};
+
 type Round = {
   id: string;
   seq: number;
@@ -39,7 +47,7 @@ type LiveTriviaState = {
   round: Round | null;
   question: TriviaQuestion | null;
   counts: { totalPlayers: number; answersCount: number; readyCount: number; pendingCount: number };
-  answersSummary: { player_id: string; display_name: string | null; correct: boolean | null; points: number | null }[];
+  reveal: TriviaReveal | null;
 };
 
 const FALLBACK_CATEGORIES = [
@@ -93,9 +101,7 @@ export default function TriviaPage() {
   const [gamePollTick, setGamePollTick] = useState(0);
   const [currentQuestionId, setCurrentQuestionId] = useState<string | null>(null);
   const [readySubmittedRoundId, setReadySubmittedRoundId] = useState<string | null>(null);
-  const [answersSummary, setAnswersSummary] = useState<
-    { player_id: string; display_name: string | null; correct: boolean | null; points: number | null }[]
-  >([]);
+  const [reveal, setReveal] = useState<TriviaReveal | null>(null);
   const [showLeaveModal, setShowLeaveModal] = useState(false);
   const [showEndModal, setShowEndModal] = useState(false);
   const totalQuestions = 20;
@@ -154,7 +160,7 @@ export default function TriviaPage() {
       const totalPlayers = data.counts?.totalPlayers ?? 0;
       const answersCount = data.counts?.answersCount ?? 0;
       const readyAll = (data.counts?.readyCount ?? 0) >= Math.max(totalPlayers, answersCount, 1);
-      setAnswersSummary(data.answersSummary ?? []);
+      setReveal(data.reveal ?? null);
 
       const isWaitingForNextBlock =
         round?.status === "revealed" && noPending && (data.game?.status === "in_progress" || data.game?.status === "lobby_open") && readyAll;
@@ -218,15 +224,6 @@ export default function TriviaPage() {
     setAnswerChoice(null);
   }, [currentQuestionId]);
 
-  const loadQuestion = async (questionId: string) => {
-    const { data } = await supabase
-      .from("questions")
-      .select("id, text, choices, correct_index, difficulty")
-      .eq("id", questionId)
-      .single();
-    if (data) setQuestion(data as TriviaQuestion);
-  };
-
   useEffect(() => {
     const load = async () => {
       const g = await getGameByCode(code);
@@ -262,7 +259,7 @@ export default function TriviaPage() {
             setGame(null);
             setCurrentRound(null);
             setQuestion(null);
-            setAnswersSummary([]);
+            setReveal(null);
             setHasSubmittedAnswer(false);
             router.push("/");
             return;
@@ -448,7 +445,7 @@ export default function TriviaPage() {
     if (!game?.id || !playerId || !question) return;
     setStatus(null);
     const seq = (currentRound?.seq ?? 0) + 1;
-    const res = await startTriviaRound(game.id, playerId, question.id, seq);
+    const res = await startTriviaRound(game.id, question.id, seq);
     if (!res.success) setStatus(res.error);
     else {
       setStatus("Round started");
@@ -469,7 +466,7 @@ export default function TriviaPage() {
       setStatus("Pick an answer first.");
       return;
     }
-    const res = await submitTriviaAnswer(currentRound.id, game.id, playerId, answerChoice);
+    const res = await submitTriviaAnswer(currentRound.id, game.id, answerChoice);
     if (!res.success) setStatus(res.error);
     else {
       setStatus("Answer submitted");
@@ -487,7 +484,7 @@ export default function TriviaPage() {
       setStatus("Host does not need to confirm ready.");
       return;
     }
-    const res = await confirmReadyNext(game.id, playerId, currentRound.id);
+    const res = await confirmReadyNext(game.id, currentRound.id);
     if (!res.success) {
       setStatus(res.error);
     } else {
@@ -506,9 +503,10 @@ export default function TriviaPage() {
   };
 
   const handleImport = async () => {
+    if (!game?.id) return;
     setImportStatus(null);
     setImportLoading(true);
-    const res = await importOpenTriviaBatch(importAmount, importDifficulty);
+    const res = await importOpenTriviaBatch(game.id, importAmount, importDifficulty);
     setImportLoading(false);
     if (!res.success) setImportStatus(res.error);
     else setImportStatus(res.message ?? "Imported questions.");
@@ -529,7 +527,7 @@ export default function TriviaPage() {
 
   const handleSeedBlock = async () => {
     if (!game?.id || !playerId) return;
-    const res = await chooseCategoryDifficulty(game.id, playerId, categoryChoice, difficultyChoice);
+    const res = await chooseCategoryDifficulty(game.id, categoryChoice, difficultyChoice);
     if (!res.success) setStatus(res.error);
     else {
       setStatus(res.message ?? "Block seeded.");
@@ -550,7 +548,7 @@ export default function TriviaPage() {
 
   const handleCloseGame = async () => {
     if (!game?.id || !playerId) return;
-    const res = await closeTriviaGame(game.id, playerId);
+    const res = await closeTriviaGame(game.id);
     if (!res.success) {
       setStatus(res.error);
       return;
@@ -623,13 +621,14 @@ export default function TriviaPage() {
   const handleLeaveGame = () => setShowLeaveModal(true);
 
   const confirmLeaveGame = async () => {
-    if (!playerId) return;
+    if (!game?.id || !playerId) return;
     setStatus(null);
-    const { error } = await supabase.from("players").delete().eq("id", playerId);
-    if (error) {
-      setStatus(error.message);
+    const res = await leaveLobbyAction(game.id);
+    if (!res.success) {
+      setStatus(res.error);
       return;
     }
+    resetGameToken();
     if (typeof window !== "undefined") {
       localStorage.removeItem("gridiron-lobby");
     }
@@ -660,7 +659,7 @@ export default function TriviaPage() {
       </div>
       {currentRound?.status === "revealed" && readyModalDismissed ? (
         <div className={`mt-3 rounded-lg bg-emerald-50 px-3 py-2 ${isHost ? "text-lg" : "text-base"} text-emerald-800`}>
-          Correct answer: <span className="font-semibold">{question.choices[question.correct_index]}</span>. Tap ready to continue.
+          Correct answer: <span className="font-semibold">{reveal?.correct_answer ?? "…"}</span>. Tap ready to continue.
           <div className="mt-2 flex gap-2">
             <button
               onClick={handleReadyNext}
@@ -849,15 +848,30 @@ export default function TriviaPage() {
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 px-4">
           <div className="w-full max-w-xl rounded-2xl bg-white p-6 shadow-2xl">
             <p className="text-xs uppercase tracking-[0.25em] text-slate-500">Answer revealed</p>
-            <h3 className="mt-2 text-2xl font-bold text-slate-900">Correct: {question.choices[question.correct_index]}</h3>
+            <h3 className="mt-2 text-2xl font-bold text-slate-900">Correct: {reveal?.correct_answer ?? "…"}</h3>
             <p className="mt-1 text-sm text-slate-600">
               Waiting for players to acknowledge before the next question goes live.
             </p>
-            {isHost && answersSummary && answersSummary.length > 0 ? (
+            {reveal && reveal.distribution.some((count) => count > 0) ? (
+              <div className="mt-3 space-y-1 text-sm">
+                {question.choices.map((choice, idx) => (
+                  <div
+                    key={idx}
+                    className={`flex items-center justify-between rounded-md px-2 py-1 ${
+                      idx === reveal.correct_index ? "bg-emerald-50 font-semibold text-emerald-800" : "text-slate-700"
+                    }`}
+                  >
+                    <span className="truncate">{choice}</span>
+                    <span className="text-xs font-semibold">{reveal.distribution[idx] ?? 0}</span>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {isHost && reveal && reveal.results.length > 0 ? (
               <div className="mt-3 rounded-lg bg-slate-50 p-3">
                 <p className="text-xs uppercase tracking-[0.2em] text-slate-500 mb-2">Who got it right</p>
                 <div className="space-y-1 text-sm">
-                  {answersSummary.map((a) => (
+                  {reveal.results.map((a) => (
                     <div
                       key={a.player_id}
                       className={`flex items-center justify-between rounded-md px-2 py-1 ${
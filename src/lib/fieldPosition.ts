@@ -0,0 +1,44 @@
+// `games.yard_line` is an absolute 0–100 axis: 0 is the home goal line, 100 the away goal line.
+// Home drives toward 100, away toward 0. Every action that places the ball goes through these helpers.
+
+export type Side = "home" | "away";
+
+export const KICKOFF_SPOT = 35; // kicking team's own 35
+export const KICKOFF_TOUCHBACK_SPOT = 25;
+export const TOUCHBACK_SPOT = 20; // punts and interceptions that die in the end zone
+export const TRY_SPOT = 2; // two-point tries snap from the defense's 2
+
+export const otherSide = (side: Side): Side => (side === "home" ? "away" : "home");
+
+// Absolute spot `yards` out from `side`'s own goal line (e.g. spotFromOwnGoal("away", 25) === 75).
+export const spotFromOwnGoal = (side: Side, yards: number) => (side === "home" ? yards : 100 - yards);
+
+export const yardsFromOwnGoal = (side: Side, yardLine: number) => (side === "home" ? yardLine : 100 - yardLine);
+
+export const yardsToGoal = (side: Side, yardLine: number) => 100 - yardsFromOwnGoal(side, yardLine);
+
+// Moves the ball `yards` toward `side`'s scoring end zone (negative for losses). Not clamped.
+export const advanceBall = (side: Side, yardLine: number, yards: number) =>
+  side === "home" ? yardLine + yards : yardLine - yards;
+
+export const yardsGained = (side: Side, from: number, to: number) => yardsFromOwnGoal(side, to) - yardsFromOwnGoal(side, from);
+
+// 1st-and-10, or 1st-and-goal inside the 10.
+export const firstDownDistance = (side: Side, yardLine: number) => Math.max(1, Math.min(10, yardsToGoal(side, yardLine)));
+
+export const clampToField = (yardLine: number) => Math.min(100, Math.max(0, yardLine));
+
+export const isInOwnTerritory = (side: Side, yardLine: number) => yardsFromOwnGoal(side, yardLine) < 50;
+
+export const isInOpponentTerritory = (side: Side, yardLine: number) => yardsFromOwnGoal(side, yardLine) > 50;
+
+export const reachedEndZone = (side: Side, yardLine: number) => yardsToGoal(side, yardLine) <= 0;
+
+export const inOwnEndZone = (side: Side, yardLine: number) => yardsFromOwnGoal(side, yardLine) <= 0;
+
+// Broadcast-style label: "HOME 20", "AWAY 35", or "50" at midfield.
+export const formatYardLine = (yardLine: number | null | undefined) => {
+  const spot = clampToField(yardLine ?? 0);
+  if (spot === 50) return "50";
+  return spot < 50 ? `HOME ${spot}` : `AWAY ${100 - spot}`;
+};
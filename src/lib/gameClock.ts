@@ -0,0 +1,72 @@
+export const QUARTER_SECONDS = 900;
+export const PLAY_CLOCK_SECONDS = 40;
+export const REGULATION_QUARTERS = 4;
+export const TIMEOUTS_PER_HALF = 3;
+
+export type ClockPlayKind = "run" | "pass_complete" | "pass_incomplete" | "kick";
+
+// Seconds of game clock a play uses. Incompletions stop the clock; runs keep it moving longest.
+const CLOCK_BURN: Record<ClockPlayKind, number> = {
+  run: 38,
+  pass_complete: 30,
+  pass_incomplete: 6,
+  kick: 8,
+};
+
+// Scores and changes of possession stop the clock right after the snap.
+const DEAD_BALL_BURN = 8;
+
+export const clockBurnForPlay = (kind: ClockPlayKind, clockStops = false) =>
+  clockStops ? Math.min(CLOCK_BURN[kind], DEAD_BALL_BURN) : CLOCK_BURN[kind];
+
+export type ClockAdvance = {
+  quarter: number;
+  clockSeconds: number;
+  quarterEnded: boolean;
+  halftime: boolean;
+  gameOver: boolean;
+};
+
+export const advanceClock = (quarter: number, clockSeconds: number, burn: number): ClockAdvance => {
+  const remaining = clockSeconds - burn;
+  if (remaining > 0) {
+    return { quarter, clockSeconds: remaining, quarterEnded: false, halftime: false, gameOver: false };
+  }
+
+  if (quarter >= REGULATION_QUARTERS) {
+    return { quarter, clockSeconds: 0, quarterEnded: true, halftime: false, gameOver: true };
+  }
+
+  return {
+    quarter: quarter + 1,
+    clockSeconds: QUARTER_SECONDS,
+    quarterEnded: true,
+    halftime: quarter === 2,
+    gameOver: false,
+  };
+};
+
+// Runs time off without ending the quarter, for plays that still owe an untimed down (e.g. a try after a touchdown).
+export const runOffClock = (quarter: number, clockSeconds: number, burn: number): ClockAdvance => ({
+  quarter,
+  clockSeconds: Math.max(0, clockSeconds - burn),
+  quarterEnded: false,
+  halftime: false,
+  gameOver: false,
+});
+
+// The play clock is enforced against a server-side deadline for the current play's subphase.
+export const playClockDeadline = (from = Date.now()) => new Date(from + PLAY_CLOCK_SECONDS * 1000).toISOString();
+
+export const playClockRemaining = (deadline: string | null | undefined, now = Date.now()) =>
+  deadline ? Math.max(0, Math.ceil((Date.parse(deadline) - now) / 1000)) : null;
+
+export const playClockExpired = (deadline: string | null | undefined, now = Date.now()) =>
+  !!deadline && Date.parse(deadline) <= now;
+
+export const formatClock = (seconds: number | null | undefined) => {
+  const total = Math.max(0, seconds ?? 0);
+  const minutes = Math.floor(total / 60);
+  const secs = total % 60;
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,12 @@
+import { createSupabaseServerClient } from "@/lib/supabaseServer";
+
+// Appends to a game's `game_events` log. Deliberately not a server action: the replay and its repair trust this log,
+// so only server code that has already checked the caller writes to it.
+export async function logGameEvent(gameId: string, type: string, payload?: Record<string, unknown>) {
+  const supabase = createSupabaseServerClient();
+  await supabase.from("game_events").insert({
+    game_id: gameId,
+    type,
+    payload: payload ?? null,
+  });
+}
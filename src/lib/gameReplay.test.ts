@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest";
+import type { Side } from "@/lib/fieldPosition";
+import { QUARTER_SECONDS } from "@/lib/gameClock";
+import { INITIAL_REPLAY_STATE, replayGameEvents, replayGameLog } from "@/lib/gameReplay";
+import type { ReplayEvent, ReplayState } from "@/lib/gameReplay";
+import { DEFENSE_PLAYS, playsForDown } from "@/lib/playbook";
+import { resolvePlay } from "@/lib/playEngine";
+import type { PlayOutcome } from "@/lib/playEngine";
+import { createRng } from "@/lib/rng";
+
+// Events are built the way actions/play.ts logs them, down to the `state` snapshot each resolution carries.
+
+const driveState = (offense: Side, overrides: Partial<ReplayState> = {}): ReplayState => ({
+  ...INITIAL_REPLAY_STATE,
+  phase: "drive",
+  possession_side: offense,
+  offense_side: offense,
+  defense_side: offense === "home" ? "away" : "home",
+  yard_line: 50,
+  ...overrides,
+});
+
+const snapshotOf = (outcome: PlayOutcome) => ({
+  phase: outcome.state.phase,
+  quarter: outcome.state.quarter,
+  clock_seconds: outcome.state.clockSeconds,
+  down: outcome.state.down,
+  distance: outcome.state.distance,
+  yard_line: outcome.state.yardLine,
+  possession_side: outcome.state.possession,
+  offense_side: outcome.state.offenseSide,
+  defense_side: outcome.state.defenseSide,
+  score_home: outcome.state.scoreHome,
+  score_away: outcome.state.scoreAway,
+});
+
+const playResolved = (outcome: PlayOutcome, conversion = false): ReplayEvent => ({
+  type: "play_resolved",
+  payload: {
+    seq: 1,
+    yards: outcome.play.yards,
+    turnover: outcome.play.turnover,
+    turnover_type: outcome.play.turnoverType,
+    touchdown: outcome.play.touchdown,
+    safety: outcome.play.safety,
+    ...(conversion ? { conversion: "two_point", conversion_good: outcome.play.conversionGood } : {}),
+    ...outcome.play.kick,
+    ...outcome.play.takeaway,
+    ...(outcome.play.foul && outcome.play.penalty
+      ? {
+          penalty: outcome.play.foul.type,
+          penalty_against: outcome.play.foul.against,
+          penalty_yards: outcome.play.penalty.yards,
+        }
+      : {}),
+    state: snapshotOf(outcome),
+  },
+});
+
+const resolveFrom = (
+  state: ReplayState,
+  offense: string,
+  defense: string,
+  roll: number,
+  answers: boolean[],
+  seed: string,
+) =>
+  resolvePlay(
+    {
+      phase: String(state.phase),
+      quarter: Number(state.quarter),
+      clockSeconds: Number(state.clock_seconds),
+      clockStopped: false,
+      down: Number(state.down),
+      distance: Number(state.distance),
+      yardLine: Number(state.yard_line),
+      offenseSide: state.offense_side as Side,
+      defenseSide: state.defense_side as Side,
+      scoreHome: Number(state.score_home),
+      scoreAway: Number(state.score_away),
+      secondHalfKickoffSide: "home",
+      overtime: { rule: "sudden_death", period: 0, possessions: 0, firstSide: null },
+    },
+    { play: offense, difficulty: "easy", correct: answers[0], roll },
+    { play: defense, difficulty: "easy", correct: answers[1], roll: 2 },
+    createRng(seed, `${offense}:${defense}:${roll}:${answers.join(":")}`),
+  );
+
+describe("replayGameLog", () => {
+  it("works every engine outcome out from its payload alone", () => {
+    // Kicks only come up on fourth down, as in the play picker.
+    const starts = [
+      driveState("home"),
+      driveState("away", { down: 4, distance: 3, yard_line: 30 }),
+      driveState("home", { down: 3, distance: 5, yard_line: 97 }),
+      driveState("away", { down: 2, distance: 10, yard_line: 98 }),
+      driveState("home", { phase: "conversion", distance: 2, yard_line: 98, score_home: 6 }),
+    ];
+    for (const [i, start] of starts.entries()) {
+      for (const offense of playsForDown(Number(start.down))) {
+        for (const defense of DEFENSE_PLAYS) {
+          for (const roll of [1, 3]) {
+            for (const answers of [
+              [true, true],
+              [true, false],
+              [false, true],
+              [false, false],
+            ]) {
+              const outcome = resolveFrom(start, offense.id, defense.id, roll, answers, `replay-spec-${i}`);
+              const { state, mismatches } = replayGameLog([playResolved(outcome, start.phase === "conversion")], start);
+
+              expect(mismatches).toEqual([]);
+              expect(state).toMatchObject(snapshotOf(outcome));
+            }
+          }
+        }
+      }
+    }
+  });
+
+  it("scores from the payload and flags a snapshot that says otherwise", () => {
+    const events: ReplayEvent[] = [
+      {
+        type: "play_resolved",
+        payload: {
+          seq: 7,
+          yards: 4,
+          turnover: false,
+          turnover_type: null,
+          touchdown: true,
+          safety: false,
+          state: { phase: "conversion", score_home: 60, possession_side: "home", yard_line: 98 },
+        },
+      },
+    ];
+    const { state, mismatches } = replayGameLog(events, driveState("home", { yard_line: 96 }));
+
+    expect(state).toMatchObject({ phase: "conversion", score_home: 6, score_away: 0, yard_line: 98, distance: 2 });
+    expect(mismatches).toEqual([
+      { index: 0, type: "play_resolved", seq: 7, drift: { score_home: { replayed: 6, actual: 60 } } },
+    ]);
+  });
+
+  it("keeps halftime's reset from the snapshot but the score from the play", () => {
+    const halftime = {
+      phase: "halftime",
+      quarter: 3,
+      clock_seconds: QUARTER_SECONDS,
+      possession_side: "away",
+      offense_side: "away",
+      defense_side: "home",
+      down: 1,
+      distance: 10,
+      yard_line: 35,
+      score_home: 3,
+      score_away: 0,
+    };
+    const { state, mismatches } = replayGameLog(
+      [
+        {
+          type: "play_resolved",
+          payload: { yards: 0, turnover_type: null, kick: "field_goal", field_goal_good: true, state: halftime },
+        },
+      ],
+      driveState("home", { quarter: 2, clock_seconds: 5, down: 4, yard_line: 80 }),
+    );
+
+    expect(mismatches).toEqual([]);
+    expect(state).toMatchObject(halftime);
+  });
+
+  it("folds kickoffs and kicked tries into the score", () => {
+    const state = replayGameEvents([
+      { type: "coin_toss_started", payload: {} },
+      { type: "coin_toss_result", payload: { coin: "heads", winner: "away", choice: "receive" } },
+      {
+        type: "kickoff_resolved",
+        payload: {
+          kicking_side: "home",
+          receiving_side: "away",
+          touchdown: true,
+          possession_side: "away",
+          yard_line: 0,
+        },
+      },
+      { type: "conversion_chosen", payload: { choice: "kick", side: "away" } },
+      { type: "conversion_resolved", payload: { choice: "kick", side: "away", good: true, points: 1 } },
+      {
+        type: "kickoff_resolved",
+        payload: {
+          kicking_side: "away",
+          receiving_side: "home",
+          touchdown: false,
+          possession_side: "home",
+          yard_line: 25,
+        },
+      },
+    ]);
+
+    expect(state).toMatchObject({
+      phase: "drive",
+      score_home: 0,
+      score_away: 7,
+      possession_side: "home",
+      offense_side: "home",
+      down: 1,
+      distance: 10,
+      yard_line: 25,
+    });
+  });
+
+  it("leaves roll penalties to the play that drew them", () => {
+    const state = replayGameEvents(
+      [
+        {
+          type: "play_resolved",
+          payload: {
+            yards: 0,
+            turnover_type: null,
+            penalty: "false_start",
+            penalty_against: "offense",
+            penalty_yards: 5,
+          },
+        },
+        { type: "penalty", payload: { source: "roll", down: 9, distance: 99, yard_line: 1 } },
+      ],
+      driveState("home", { down: 2, distance: 7, yard_line: 40 }),
+    );
+
+    expect(state).toMatchObject({ down: 2, distance: 12, yard_line: 35, possession_side: "home" });
+  });
+
+  it("applies a ref adjustment's after values", () => {
+    const state = replayGameEvents(
+      [
+        {
+          type: "ref_adjustment",
+          payload: {
+            changes: {
+              score_home: { before: 0, after: 14 },
+              yard_line: { before: 50, after: 62 },
+              play_subphase: { before: "play_call", after: "rolls" },
+            },
+          },
+        },
+        { type: "play_resolved", payload: { yards: 8, turnover_type: null, touchdown: false, safety: false } },
+      ],
+      driveState("home"),
+    );
+
+    expect(state).toMatchObject({ score_home: 14, yard_line: 70, down: 2, distance: 2 });
+    expect(state).not.toHaveProperty("play_subphase");
+  });
+
+  it("rolls an undone play back to its snapshot", () => {
+    const before = driveState("away", { down: 3, distance: 4, yard_line: 22 });
+    const state = replayGameEvents(
+      [
+        { type: "play_resolved", payload: { yards: 22, turnover_type: null, touchdown: true, safety: false } },
+        {
+          type: "play_undone",
+          payload: {
+            seq: 12,
+            result_text: "Touchdown",
+            state: { phase: "drive", down: 3, distance: 4, yard_line: 22, score_home: 0, score_away: 0 },
+          },
+        },
+      ],
+      before,
+    );
+
+    expect(state).toEqual(before);
+  });
+
+  it("turns the ball over on downs and concedes safeties from the payload", () => {
+    const downs = replayGameEvents(
+      [{ type: "play_resolved", payload: { yards: -3, turnover: true, turnover_type: "downs" } }],
+      driveState("away", { down: 4, distance: 2, yard_line: 40 }),
+    );
+    expect(downs).toMatchObject({ possession_side: "home", down: 1, distance: 10, yard_line: 43 });
+
+    const safety = replayGameEvents(
+      [{ type: "play_resolved", payload: { yards: -2, turnover_type: null, safety: true } }],
+      driveState("home", { yard_line: 2 }),
+    );
+    expect(safety).toMatchObject({ phase: "kickoff", score_away: 2, possession_side: "away", yard_line: 35 });
+  });
+});
@@ -0,0 +1,346 @@
+// Rebuilds a football game's scoreboard from `game_events` alone, oldest first.
+// Deterministic transitions (toss, timeouts, resets, flags) are re-derived from their payloads. Dice-driven
+// resolutions log what the dice decided (yards, scores, turnovers, kicks), and the score and the ball are refolded
+// from those; the columns they wrote, under `state`, only fill in what the log doesn't carry and are cross-checked.
+
+import {
+  advanceBall,
+  clampToField,
+  firstDownDistance,
+  KICKOFF_SPOT,
+  otherSide,
+  spotFromOwnGoal,
+  TOUCHBACK_SPOT,
+  TRY_SPOT,
+} from "@/lib/fieldPosition";
+import type { Side } from "@/lib/fieldPosition";
+import { QUARTER_SECONDS, TIMEOUTS_PER_HALF } from "@/lib/gameClock";
+import { overtimePossession } from "@/lib/overtime";
+import { enforcePenalty } from "@/lib/penalties";
+import type { PenaltyAgainst, PenaltyType } from "@/lib/penalties";
+import { kickoffBy, tossPossession, tryLine } from "@/lib/playEngine";
+
+export const REPLAY_FIELDS = [
+  "phase",
+  "quarter",
+  "clock_seconds",
+  "possession_side",
+  "offense_side",
+  "defense_side",
+  "down",
+  "distance",
+  "yard_line",
+  "score_home",
+  "score_away",
+  "timeouts_home",
+  "timeouts_away",
+  "clock_stopped",
+  "toss_result",
+  "toss_winner_side",
+  "toss_choice",
+  "second_half_kickoff_side",
+  "overtime_rule",
+  "overtime_period",
+  "overtime_possessions",
+  "winner_side",
+] as const;
+
+export type ReplayField = (typeof REPLAY_FIELDS)[number];
+export type ReplayState = Record<ReplayField, string | number | boolean | null>;
+export type ReplayEvent = { type: string; payload: Record<string, unknown> | null };
+export type ReplayDrift = Partial<Record<ReplayField, { replayed: unknown; actual: unknown }>>;
+// A resolution whose logged `state` disagrees with what its payload works out to, by position in the log.
+export type ReplayMismatch = { index: number; type: string; seq: number | null; drift: ReplayDrift };
+
+// A freshly created game, per the column defaults in schema.sql.
+export const INITIAL_REPLAY_STATE: ReplayState = {
+  phase: "lobby",
+  quarter: 1,
+  clock_seconds: QUARTER_SECONDS,
+  possession_side: null,
+  offense_side: null,
+  defense_side: null,
+  down: 1,
+  distance: 10,
+  yard_line: 25,
+  score_home: 0,
+  score_away: 0,
+  timeouts_home: TIMEOUTS_PER_HALF,
+  timeouts_away: TIMEOUTS_PER_HALF,
+  clock_stopped: false,
+  toss_result: null,
+  toss_winner_side: null,
+  toss_choice: null,
+  second_half_kickoff_side: null,
+  overtime_rule: "sudden_death",
+  overtime_period: 0,
+  overtime_possessions: 0,
+  winner_side: null,
+};
+
+// The replayed columns of a `games` row (or of any partial snapshot of one).
+export const pickReplayState = (row: Record<string, unknown>): Partial<ReplayState> =>
+  Object.fromEntries(
+    REPLAY_FIELDS.filter((field) => field in row).map((field) => [field, (row[field] ?? null) as ReplayState[ReplayField]]),
+  );
+
+// The columns an event logged under `state`, if any.
+const snapshotOf = (payload: Record<string, unknown>) =>
+  payload.state && typeof payload.state === "object" ? pickReplayState(payload.state as Record<string, unknown>) : {};
+
+// The toss winner's choice decides who receives, who kicks the second half, and where the ball sits.
+const afterTossChoice = (state: ReplayState, winner: Side, choice: string): Partial<ReplayState> => {
+  const { possession, secondHalfKickoffSide } = tossPossession(winner, choice);
+  const collegeOvertime = Number(state.overtime_period) > 0 && state.overtime_rule === "college";
+  return {
+    toss_choice: choice,
+    possession_side: possession,
+    offense_side: possession,
+    defense_side: otherSide(possession),
+    second_half_kickoff_side: secondHalfKickoffSide,
+    phase: collegeOvertime ? "drive" : "kickoff",
+    down: 1,
+    distance: 10,
+    yard_line: collegeOvertime
+      ? overtimePossession(possession).yardLine
+      : spotFromOwnGoal(otherSide(possession), KICKOFF_SPOT),
+    clock_seconds: QUARTER_SECONDS,
+  };
+};
+
+const applyEvent = (state: ReplayState, event: ReplayEvent): ReplayState => {
+  const payload = event.payload ?? {};
+
+  switch (event.type) {
+    case "coin_toss_started":
+      return {
+        ...state,
+        phase: "coin_toss",
+        quarter: 1,
+        clock_seconds: QUARTER_SECONDS,
+        down: 1,
+        distance: 10,
+        yard_line: 50,
+        possession_side: null,
+        offense_side: null,
+        defense_side: null,
+        toss_result: null,
+        toss_winner_side: null,
+        toss_choice: null,
+        overtime_period: 0,
+        overtime_possessions: 0,
+        winner_side: null,
+        timeouts_home: TIMEOUTS_PER_HALF,
+        timeouts_away: TIMEOUTS_PER_HALF,
+        clock_stopped: false,
+      };
+    case "coin_toss_flipped":
+      return {
+        ...state,
+        toss_result: payload.coin as string,
+        toss_winner_side: payload.winner as Side,
+        toss_choice: null,
+        phase: "coin_toss_choice",
+      };
+    case "coin_toss_result":
+      return {
+        ...state,
+        toss_result: payload.coin as string,
+        toss_winner_side: payload.winner as Side,
+        ...afterTossChoice(state, payload.winner as Side, payload.choice as string),
+      };
+    case "coin_toss_choice":
+      return { ...state, ...afterTossChoice(state, state.toss_winner_side as Side, payload.choice as string) };
+    case "second_half_started":
+      return { ...state, phase: "kickoff" };
+    case "timeout_called":
+      return {
+        ...state,
+        [payload.side === "home" ? "timeouts_home" : "timeouts_away"]: payload.remaining as number,
+        clock_stopped: true,
+      };
+    case "overtime_rule_set":
+      return { ...state, overtime_rule: payload.rule as string };
+    case "drive_reset": {
+      const possession = payload.possession_side as Side;
+      return {
+        ...state,
+        phase: "drive",
+        down: 1,
+        distance: 10,
+        yard_line: payload.yard_line as number,
+        possession_side: possession,
+        offense_side: possession,
+        defense_side: otherSide(possession),
+        clock_stopped: false,
+      };
+    }
+    case "conversion_chosen":
+      if (payload.choice !== "two_point") return state;
+      return {
+        ...state,
+        down: 1,
+        distance: 2,
+        yard_line: spotFromOwnGoal(otherSide(payload.side as Side), TRY_SPOT),
+      };
+    case "penalty":
+      // Roll-triggered fouls are walked off again by the play_resolved that precedes them.
+      if (payload.source === "roll") return state;
+      return {
+        ...state,
+        down: payload.down as number,
+        distance: payload.distance as number,
+        yard_line: payload.yard_line as number,
+      };
+    case "ref_adjustment": {
+      const changes = (payload.changes ?? {}) as Record<string, { after: unknown }>;
+      const after = Object.fromEntries(Object.entries(changes).map(([field, change]) => [field, change.after]));
+      return { ...state, ...pickReplayState(after) };
+    }
+  }
+
+  // Explicit restores (an undone play, a repair from the log) put back the snapshot they carry.
+  return { ...state, ...snapshotOf(payload) };
+};
+
+const scored = (state: ReplayState, side: Side, points: number): Partial<ReplayState> =>
+  side === "home"
+    ? { score_home: Number(state.score_home) + points }
+    : { score_away: Number(state.score_away) + points };
+
+const ballTo = (side: Side, yardLine: number, down = 1, distance = firstDownDistance(side, yardLine)) => ({
+  possession_side: side,
+  offense_side: side,
+  defense_side: otherSide(side),
+  down,
+  distance,
+  yard_line: yardLine,
+});
+
+const kickoffAfter = (kickingSide: Side): Partial<ReplayState> => {
+  const field = kickoffBy(kickingSide);
+  return { phase: "kickoff", ...ballTo(field.possession, field.yardLine, field.down, field.distance) };
+};
+
+const tryFor = (side: Side): Partial<ReplayState> => ({ phase: "conversion", ...ballTo(side, tryLine(side), 1, 2) });
+
+// A scrimmage snap or two-point try, walked forward from the replayed down-and-distance the way resolvePlay does.
+const replayedPlay = (state: ReplayState, payload: Record<string, unknown>): Partial<ReplayState> => {
+  const offense = state.offense_side as Side;
+  const defense = otherSide(offense);
+  const line = Number(state.yard_line);
+  const yards = Number(payload.yards ?? 0);
+
+  if (payload.conversion === "two_point") {
+    return { ...(payload.conversion_good ? scored(state, offense, 2) : {}), ...kickoffAfter(offense) };
+  }
+  if (payload.penalty) {
+    const enforcement = enforcePenalty(
+      payload.penalty as PenaltyType,
+      payload.penalty_against as PenaltyAgainst,
+      offense,
+      { yardLine: line, down: Number(state.down), distance: Number(state.distance) },
+    );
+    return { phase: "drive", ...ballTo(offense, enforcement.yardLine, enforcement.down, enforcement.distance) };
+  }
+  if (payload.kick === "field_goal") {
+    return payload.field_goal_good
+      ? { ...scored(state, offense, 3), ...kickoffAfter(offense) }
+      : { phase: "drive", ...ballTo(defense, line) };
+  }
+  if (payload.kick === "punt") {
+    if (payload.touchback) return { phase: "drive", ...ballTo(defense, spotFromOwnGoal(defense, TOUCHBACK_SPOT)) };
+    const landing = advanceBall(offense, line, Number(payload.punt_yards));
+    const spot = Math.min(99, Math.max(1, advanceBall(defense, landing, Number(payload.return_yards))));
+    return { phase: "drive", ...ballTo(defense, spot) };
+  }
+  if (payload.turnover_type === "interception" || payload.turnover_type === "fumble") {
+    if (payload.defensive_touchdown) return { ...scored(state, defense, 6), ...tryFor(defense) };
+    if (payload.touchback) return { phase: "drive", ...ballTo(defense, spotFromOwnGoal(defense, TOUCHBACK_SPOT)) };
+    if (payload.turnover_type === "fumble") {
+      const spot = advanceBall(offense, line, yards);
+      const returnEnd = clampToField(advanceBall(defense, spot, Number(payload.return_yards)));
+      return { phase: "drive", ...ballTo(defense, returnEnd) };
+    }
+    // Where a pass was picked off isn't logged, so the spot (and the distance from it) stay with the snapshot.
+    return { phase: "drive", possession_side: defense, offense_side: defense, defense_side: offense, down: 1 };
+  }
+
+  const spot = clampToField(advanceBall(offense, line, yards));
+  if (payload.touchdown) return { ...scored(state, offense, 6), ...tryFor(offense) };
+  if (payload.safety) return { ...scored(state, defense, 2), ...kickoffAfter(offense) };
+  if (payload.turnover_type === "downs") return { phase: "drive", ...ballTo(defense, spot) };
+  const remaining = Number(state.distance) - yards;
+  return {
+    phase: "drive",
+    ...(remaining <= 0 ? ballTo(offense, spot) : ballTo(offense, spot, Number(state.down) + 1, remaining)),
+  };
+};
+
+const replayedKickoff = (state: ReplayState, payload: Record<string, unknown>): Partial<ReplayState> => {
+  const receiving = payload.receiving_side as Side;
+  if (payload.touchdown) return { ...scored(state, receiving, 6), ...tryFor(receiving) };
+  return { phase: "drive", ...ballTo(payload.possession_side as Side, Number(payload.yard_line)) };
+};
+
+// The kicked try; two-point tries come through play_resolved.
+const replayedConversion = (state: ReplayState, payload: Record<string, unknown>): Partial<ReplayState> => {
+  const side = payload.side as Side;
+  return { ...(payload.good ? scored(state, side, 1) : {}), ...kickoffAfter(side) };
+};
+
+const RESOLUTIONS: Record<string, (state: ReplayState, payload: Record<string, unknown>) => Partial<ReplayState>> = {
+  play_resolved: replayedPlay,
+  kickoff_resolved: replayedKickoff,
+  conversion_resolved: replayedConversion,
+};
+
+// The clock, halftime and overtime settlements aren't in a resolution's payload, so those columns come from its
+// snapshot. When halftime or a settlement moved the ball after the snap, the snapshot also has where it went;
+// the score is always the replayed one.
+const applyResolution = (state: ReplayState, replayed: Partial<ReplayState>, snapshot: Partial<ReplayState>) => {
+  const reset =
+    (snapshot.phase !== undefined && snapshot.phase !== replayed.phase) ||
+    (snapshot.overtime_period ?? state.overtime_period) !== state.overtime_period ||
+    (snapshot.overtime_possessions ?? state.overtime_possessions) !== state.overtime_possessions;
+  const score = {
+    score_home: replayed.score_home ?? state.score_home,
+    score_away: replayed.score_away ?? state.score_away,
+  };
+  return { ...state, ...snapshot, ...(reset ? {} : replayed), ...score };
+};
+
+// Like replayGameEvents, plus every resolution whose logged `state` doesn't match its own payload.
+export const replayGameLog = (events: ReplayEvent[], initial: ReplayState = INITIAL_REPLAY_STATE) => {
+  const mismatches: ReplayMismatch[] = [];
+  const state = events.reduce((state, event, index) => {
+    const resolve = RESOLUTIONS[event.type];
+    if (!resolve) return applyEvent(state, event);
+
+    const payload = event.payload ?? {};
+    const snapshot = snapshotOf(payload);
+    const next = applyResolution(state, resolve(state, payload), snapshot);
+    const drift: ReplayDrift = {};
+    for (const [field, logged] of Object.entries(snapshot) as [ReplayField, unknown][]) {
+      if (logged !== next[field]) drift[field] = { replayed: next[field], actual: logged };
+    }
+    if (Object.keys(drift).length > 0) {
+      mismatches.push({ index, type: event.type, seq: typeof payload.seq === "number" ? payload.seq : null, drift });
+    }
+    return next;
+  }, initial);
+  return { state, mismatches };
+};
+
+export const replayGameEvents = (events: ReplayEvent[], initial: ReplayState = INITIAL_REPLAY_STATE): ReplayState =>
+  replayGameLog(events, initial).state;
+
+// Fields where the `games` row disagrees with the replay; empty when the log accounts for everything.
+export const replayDrift = (replayed: ReplayState, row: Record<string, unknown>): ReplayDrift => {
+  const drift: ReplayDrift = {};
+  for (const field of REPLAY_FIELDS) {
+    const actual = row[field] ?? null;
+    if (actual !== replayed[field]) drift[field] = { replayed: replayed[field], actual };
+  }
+  return drift;
+};
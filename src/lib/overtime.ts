@@ -0,0 +1,97 @@
+// Overtime starts when regulation ends level. Sudden death plays timed periods where the first score wins;
+// college-style gives each team a possession from the opponent's 25 per period until one leads after both.
+
+import { otherSide, spotFromOwnGoal } from "@/lib/fieldPosition";
+import type { Side } from "@/lib/fieldPosition";
+import { REGULATION_QUARTERS } from "@/lib/gameClock";
+
+export type OvertimeRule = "sudden_death" | "college";
+
+export const OVERTIME_RULES: OvertimeRule[] = ["sudden_death", "college"];
+export const OVERTIME_SPOT = 25; // college-style possessions snap from the opponent's 25
+
+export type OvertimeState = {
+  rule: OvertimeRule;
+  period: number; // 0 during regulation
+  possessions: number; // college-style possessions completed in the current period
+  firstSide: Side | null; // who has the ball first this period
+};
+
+export type Settlement =
+  | { kind: "final"; winner: Side }
+  | { kind: "overtime"; period: number } // fresh coin toss
+  | { kind: "possession"; side: Side; period: number; possessions: number }; // next college-style series
+
+export const leadingSide = (scoreHome: number, scoreAway: number): Side | null =>
+  scoreHome === scoreAway ? null : scoreHome > scoreAway ? "home" : "away";
+
+export const overtimeQuarter = (period: number) => REGULATION_QUARTERS + period;
+
+// Toss winner takes the ball first by choosing "receive"; periods alternate after that.
+export const overtimeFirstSide = (period: number, tossWinner: Side | null, tossChoice: string | null): Side | null => {
+  if (!tossWinner || period < 1) return null;
+  const tossFirst = tossChoice === "receive" ? tossWinner : otherSide(tossWinner);
+  return period % 2 === 1 ? tossFirst : otherSide(tossFirst);
+};
+
+export const overtimeFromGame = (game: {
+  overtime_rule?: string | null;
+  overtime_period?: number | null;
+  overtime_possessions?: number | null;
+  toss_winner_side?: string | null;
+  toss_choice?: string | null;
+}): OvertimeState => {
+  const period = game.overtime_period ?? 0;
+  return {
+    rule: game.overtime_rule === "college" ? "college" : "sudden_death",
+    period,
+    possessions: game.overtime_possessions ?? 0,
+    firstSide: overtimeFirstSide(period, (game.toss_winner_side ?? null) as Side | null, game.toss_choice ?? null),
+  };
+};
+
+// College-style overtime has no game clock.
+export const isUntimedOvertime = (overtime: OvertimeState) => overtime.period > 0 && overtime.rule === "college";
+
+export const overtimePossession = (side: Side) => ({
+  possession: side,
+  offenseSide: side,
+  defenseSide: otherSide(side),
+  down: 1,
+  distance: 10,
+  yardLine: spotFromOwnGoal(otherSide(side), OVERTIME_SPOT),
+});
+
+// What follows a play: nothing special (null), the final whistle, a new overtime period, or the next OT series.
+export const settleGame = (
+  overtime: OvertimeState,
+  outcome: { scoreHome: number; scoreAway: number; clockExpired: boolean; possessionOver: boolean },
+): Settlement | null => {
+  const leader = leadingSide(outcome.scoreHome, outcome.scoreAway);
+
+  if (overtime.period === 0) {
+    if (!outcome.clockExpired) return null;
+    return leader ? { kind: "final", winner: leader } : { kind: "overtime", period: 1 };
+  }
+
+  if (overtime.rule === "sudden_death") {
+    // Overtime starts level, so whoever leads has just scored.
+    if (leader) return { kind: "final", winner: leader };
+    return outcome.clockExpired ? { kind: "overtime", period: overtime.period + 1 } : null;
+  }
+
+  if (!outcome.possessionOver) return null;
+  const firstSide = overtime.firstSide ?? "home";
+  const possessions = overtime.possessions + 1;
+  if (possessions % 2 === 1) {
+    return { kind: "possession", side: otherSide(firstSide), period: overtime.period, possessions };
+  }
+  if (leader) return { kind: "final", winner: leader };
+  return { kind: "possession", side: otherSide(firstSide), period: overtime.period + 1, possessions: 0 };
+};
+
+export const formatPeriod = (quarter: number | null | undefined, overtimePeriod: number | null | undefined) => {
+  const period = overtimePeriod ?? 0;
+  if (period > 0) return period === 1 ? "OT" : `${period}OT`;
+  return `Q${quarter ?? 1}`;
+};
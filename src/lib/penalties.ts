@@ -0,0 +1,77 @@
+import { advanceBall, firstDownDistance, yardsFromOwnGoal, yardsToGoal } from "@/lib/fieldPosition";
+import type { Side } from "@/lib/fieldPosition";
+
+export type PenaltyType =
+  | "delay_of_game"
+  | "false_start"
+  | "offside"
+  | "holding"
+  | "pass_interference"
+  | "personal_foul";
+
+export type PenaltyAgainst = "offense" | "defense";
+
+type PenaltyRule = { label: string; yards: number; automaticFirstDown: boolean };
+
+// Yardage and whether a foul by the defense hands the offense a fresh set of downs.
+export const PENALTIES: Record<PenaltyType, PenaltyRule> = {
+  delay_of_game: { label: "Delay of game", yards: 5, automaticFirstDown: false },
+  false_start: { label: "False start", yards: 5, automaticFirstDown: false },
+  offside: { label: "Offside", yards: 5, automaticFirstDown: false },
+  holding: { label: "Holding", yards: 10, automaticFirstDown: true },
+  pass_interference: { label: "Pass interference", yards: 15, automaticFirstDown: true },
+  personal_foul: { label: "Personal foul", yards: 15, automaticFirstDown: true },
+};
+
+export const PENALTY_TYPES = Object.keys(PENALTIES) as PenaltyType[];
+
+export type PenaltyEnforcement = {
+  yards: number; // yards actually walked off
+  halfTheDistance: boolean;
+  firstDown: boolean;
+  down: number;
+  distance: number;
+  yardLine: number;
+};
+
+// Walks off a penalty from the line of scrimmage. Never more than half the distance to the goal being backed toward;
+// fouls on the offense replay the down, fouls on the defense can move the chains.
+export const enforcePenalty = (
+  type: PenaltyType,
+  against: PenaltyAgainst,
+  offenseSide: Side,
+  state: { yardLine: number; down: number; distance: number },
+): PenaltyEnforcement => {
+  const rule = PENALTIES[type];
+
+  if (against === "offense") {
+    const halfToGoal = Math.floor(yardsFromOwnGoal(offenseSide, state.yardLine) / 2);
+    const yards = Math.min(rule.yards, halfToGoal);
+    return {
+      yards,
+      halfTheDistance: yards < rule.yards,
+      firstDown: false,
+      down: state.down,
+      distance: state.distance + yards,
+      yardLine: advanceBall(offenseSide, state.yardLine, -yards),
+    };
+  }
+
+  const halfToGoal = Math.floor(yardsToGoal(offenseSide, state.yardLine) / 2);
+  const yards = Math.min(rule.yards, halfToGoal);
+  const yardLine = advanceBall(offenseSide, state.yardLine, yards);
+  const firstDown = rule.automaticFirstDown || yards >= state.distance;
+  return {
+    yards,
+    halfTheDistance: yards < rule.yards,
+    firstDown,
+    down: firstDown ? 1 : state.down,
+    distance: firstDown ? firstDownDistance(offenseSide, yardLine) : state.distance - yards,
+    yardLine,
+  };
+};
+
+export const describePenalty = (type: PenaltyType, against: PenaltyAgainst, enforcement: PenaltyEnforcement) =>
+  `${PENALTIES[type].label}, ${against}, ${enforcement.yards} yard${enforcement.yards === 1 ? "" : "s"}` +
+  (enforcement.halfTheDistance ? " (half the distance)" : "") +
+  (against === "defense" && enforcement.firstDown ? ", automatic first down" : "");
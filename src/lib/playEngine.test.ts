@@ -0,0 +1,288 @@
+import { describe, expect, it } from "vitest";
+import type { Side } from "@/lib/fieldPosition";
+import { QUARTER_SECONDS } from "@/lib/gameClock";
+import { DEFENSE_PLAYS, isKickPlay, OFFENSE_PLAYS } from "@/lib/playbook";
+import { kickoffBy, resolvePlay, tossPossession, tryLine } from "@/lib/playEngine";
+import type { PlayCall, PlayState } from "@/lib/playEngine";
+import { createRng } from "@/lib/rng";
+
+// Every rng here is seeded, so each case resolves the same way on every run. The scenarios are picked so the
+// asserted result holds for whatever the seeded draws turn out to be.
+
+const SEED = "play-engine-spec";
+
+const snap = (offenseSide: Side, overrides: Partial<PlayState> = {}): PlayState => ({
+  phase: "drive",
+  quarter: 1,
+  clockSeconds: QUARTER_SECONDS,
+  clockStopped: false,
+  down: 1,
+  distance: 10,
+  yardLine: 50,
+  offenseSide,
+  defenseSide: offenseSide === "home" ? "away" : "home",
+  scoreHome: 0,
+  scoreAway: 0,
+  secondHalfKickoffSide: "home",
+  overtime: { rule: "sudden_death", period: 0, possessions: 0, firstSide: null },
+  ...overrides,
+});
+
+const call = (play: string, correct: boolean, roll = 3, difficulty = "easy"): PlayCall => ({
+  play,
+  difficulty,
+  correct,
+  roll,
+});
+
+describe("resolvePlay", () => {
+  describe("every offense and defense pairing", () => {
+    for (const offense of OFFENSE_PLAYS) {
+      for (const defense of DEFENSE_PLAYS) {
+        it(`${offense.id} against ${defense.id}`, () => {
+          for (const offenseSide of ["home", "away"] as const) {
+            for (const [offenseCorrect, defenseCorrect] of [
+              [true, true],
+              [true, false],
+              [false, true],
+              [false, false],
+            ]) {
+              const state = snap(offenseSide, { down: 4 });
+              const stream = `${offense.id}:${defense.id}:${offenseSide}:${offenseCorrect}:${defenseCorrect}`;
+              const outcome = resolvePlay(
+                state,
+                call(offense.id, offenseCorrect),
+                call(defense.id, defenseCorrect),
+                createRng(SEED, stream),
+              );
+              const next = outcome.state;
+
+              expect(next.yardLine).toBeGreaterThanOrEqual(0);
+              expect(next.yardLine).toBeLessThanOrEqual(100);
+              expect(next.down).toBeGreaterThanOrEqual(1);
+              expect(next.down).toBeLessThanOrEqual(4);
+              expect(next.possession).toBe(next.offenseSide);
+              expect(next.defenseSide).not.toBe(next.offenseSide);
+              expect(next.scoreHome).toBeGreaterThanOrEqual(0);
+              expect(next.scoreAway).toBeGreaterThanOrEqual(0);
+
+              // A fourth-down snap never leaves the same side facing fifth down: either it moved the chains,
+              // scored, or the ball went over.
+              if (next.phase === "drive" && next.offenseSide === offenseSide) expect(next.down).toBe(1);
+              if (isKickPlay(offense) && next.phase === "drive") expect(next.offenseSide).toBe(state.defenseSide);
+
+              // Same seed and stream, same result.
+              const again = resolvePlay(
+                state,
+                call(offense.id, offenseCorrect),
+                call(defense.id, defenseCorrect),
+                createRng(SEED, stream),
+              );
+              expect(again).toEqual(outcome);
+            }
+          }
+        });
+      }
+    }
+  });
+
+  describe("touchdowns", () => {
+    it("scores six for home at the away goal line and lines up the try", () => {
+      const outcome = resolvePlay(
+        snap("home", { yardLine: 99, distance: 1 }),
+        call("run", true, 4),
+        call("pass_d", false),
+        createRng(SEED, "home-td"),
+      );
+
+      expect(outcome.play.touchdown).toBe(true);
+      expect(outcome.play.yards).toBe(1); // spot clamped at 100
+      expect(outcome.state).toMatchObject({
+        phase: "conversion",
+        scoreHome: 6,
+        scoreAway: 0,
+        possession: "home",
+        down: 1,
+        distance: 2,
+        yardLine: tryLine("home"),
+      });
+    });
+
+    it("scores six for away at the home goal line and lines up the try", () => {
+      const outcome = resolvePlay(
+        snap("away", { yardLine: 1, distance: 1 }),
+        call("run", true, 4),
+        call("pass_d", false),
+        createRng(SEED, "away-td"),
+      );
+
+      expect(outcome.play.touchdown).toBe(true);
+      expect(outcome.play.yards).toBe(1); // spot clamped at 0
+      expect(outcome.state).toMatchObject({
+        phase: "conversion",
+        scoreHome: 0,
+        scoreAway: 6,
+        possession: "away",
+        down: 1,
+        distance: 2,
+        yardLine: tryLine("away"),
+      });
+    });
+  });
+
+  describe("safeties", () => {
+    it("gives away two points when home is dropped in its own end zone", () => {
+      const outcome = resolvePlay(
+        snap("home", { yardLine: 1 }),
+        call("run", false),
+        call("blitz", false),
+        createRng(SEED, "home-safety"),
+      );
+
+      expect(outcome.play.safety).toBe(true);
+      expect(outcome.play.yards).toBe(-1); // spot clamped at 0
+      expect(outcome.state).toMatchObject({ phase: "kickoff", scoreHome: 0, scoreAway: 2, ...kickoffBy("home") });
+    });
+
+    it("gives home two points when away is dropped in its own end zone", () => {
+      const outcome = resolvePlay(
+        snap("away", { yardLine: 99 }),
+        call("run", false),
+        call("blitz", false),
+        createRng(SEED, "away-safety"),
+      );
+
+      expect(outcome.play.safety).toBe(true);
+      expect(outcome.play.yards).toBe(-1); // spot clamped at 100
+      expect(outcome.state).toMatchObject({ phase: "kickoff", scoreHome: 2, scoreAway: 0, ...kickoffBy("away") });
+    });
+  });
+
+  describe("turnover on downs", () => {
+    for (const offenseSide of ["home", "away"] as const) {
+      it(`hands ${offenseSide}'s ball over at the spot when fourth down comes up short`, () => {
+        const state = snap(offenseSide, { down: 4, distance: 10, yardLine: 50 });
+        const outcome = resolvePlay(
+          state,
+          call("run", false),
+          call("blitz", false),
+          createRng(SEED, `${offenseSide}-downs`),
+        );
+
+        const lost = -outcome.play.yards;
+        expect(lost).toBeGreaterThan(0);
+        expect(outcome.play.turnover).toBe(true);
+        expect(outcome.play.turnoverType).toBe("downs");
+        expect(outcome.play.resultText).toBe("Turnover on downs");
+        expect(outcome.state).toMatchObject({
+          phase: "drive",
+          possession: state.defenseSide,
+          offenseSide: state.defenseSide,
+          defenseSide: offenseSide,
+          down: 1,
+          distance: 10,
+          yardLine: offenseSide === "home" ? 50 - lost : 50 + lost,
+        });
+      });
+    }
+  });
+
+  describe("halftime", () => {
+    for (const winner of ["home", "away"] as const) {
+      it(`lets ${winner} receive the second-half kickoff after deferring the toss`, () => {
+        const toss = tossPossession(winner, "defer");
+        expect(toss.possession).not.toBe(winner);
+
+        // The side that received the opening kick runs out the second quarter.
+        const outcome = resolvePlay(
+          snap(toss.possession, { quarter: 2, clockSeconds: 5, secondHalfKickoffSide: toss.secondHalfKickoffSide }),
+          call("run", true),
+          call("pass_d", false),
+          createRng(SEED, `${winner}-defer`),
+        );
+
+        expect(outcome.clock.halftime).toBe(true);
+        expect(outcome.state).toMatchObject({ phase: "halftime", quarter: 3, possession: winner, offenseSide: winner });
+      });
+    }
+
+    it("gives the toss winner who received the second-half kickoff to the other side", () => {
+      const toss = tossPossession("home", "receive");
+      expect(toss.possession).toBe("home");
+      expect(kickoffBy(toss.secondHalfKickoffSide).possession).toBe("away");
+    });
+  });
+
+  describe("matchups", () => {
+    const SEEDS = Array.from({ length: 200 }, (_, i) => `matchup-${i}`);
+
+    // Both sides answered as they would on an ordinary snap, so only the defense's call differs between runs.
+    const averageYards = (offense: string, defense: string) =>
+      SEEDS.reduce(
+        (total, stream) =>
+          total +
+          resolvePlay(
+            snap("home", { yardLine: 30 }),
+            call(offense, true),
+            call(defense, false),
+            createRng(SEED, `${offense}:${defense}:${stream}`),
+          ).play.yards,
+        0,
+      ) / SEEDS.length;
+
+    it("stuffs the run against run stop more than against pass D", () => {
+      expect(averageYards("run", "run_stop")).toBeLessThan(averageYards("run", "pass_d"));
+    });
+
+    it("holds the pass against pass D more than against run stop", () => {
+      expect(averageYards("pass", "pass_d")).toBeLessThan(averageYards("pass", "run_stop"));
+    });
+
+    it("lets the screen beat the blitz more than zone", () => {
+      expect(averageYards("screen", "blitz")).toBeGreaterThan(averageYards("screen", "zone"));
+    });
+
+    it("makes the hail mary pay off against the blitz more than against pass D", () => {
+      expect(averageYards("hail_mary", "blitz")).toBeGreaterThan(averageYards("hail_mary", "pass_d"));
+    });
+  });
+
+  describe("pass interference", () => {
+    const SEEDS = Array.from({ length: 200 }, (_, i) => `pi-${i}`);
+
+    it("never flags a deep shot the offense got right", () => {
+      for (const stream of SEEDS) {
+        for (const defense of DEFENSE_PLAYS) {
+          const outcome = resolvePlay(
+            snap("home"),
+            call("hail_mary", true, 12, "hail_mary"),
+            call(defense.id, false),
+            createRng(SEED, stream),
+          );
+          expect(outcome.play.foul).toBeNull();
+          expect(outcome.play.yards).toBeGreaterThan(0);
+        }
+      }
+    });
+
+    it("only replaces a missed deep ball that was going nowhere", () => {
+      let flagged = 0;
+      for (const stream of SEEDS) {
+        const outcome = resolvePlay(
+          snap("home"),
+          call("hail_mary", false, 2, "hail_mary"),
+          call("zone", false),
+          createRng(SEED, stream),
+        );
+        if (outcome.play.foul) {
+          flagged += 1;
+          expect(outcome.play.foul).toEqual({ type: "pass_interference", against: "defense" });
+          expect(outcome.state.yardLine).toBe(65);
+        } else {
+          expect(outcome.play.yards).toBeLessThanOrEqual(0);
+        }
+      }
+      expect(flagged).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,550 @@
+// The football rules for one scrimmage snap (or two-point try), with no I/O: given the down-and-distance, both calls
+// with their answers and dice, and a seeded rng for everything else, work out the next state and what happened.
+// finalizePlayResolution in actions/play.ts loads the inputs and writes the result.
+
+import {
+  advanceBall,
+  clampToField,
+  firstDownDistance,
+  inOwnEndZone,
+  KICKOFF_SPOT,
+  otherSide,
+  reachedEndZone,
+  spotFromOwnGoal,
+  TOUCHBACK_SPOT,
+  TRY_SPOT,
+  yardsGained,
+  yardsToGoal,
+} from "@/lib/fieldPosition";
+import type { Side } from "@/lib/fieldPosition";
+import { advanceClock, clockBurnForPlay, runOffClock } from "@/lib/gameClock";
+import type { ClockAdvance, ClockPlayKind } from "@/lib/gameClock";
+import { isUntimedOvertime, settleGame } from "@/lib/overtime";
+import type { OvertimeState, Settlement } from "@/lib/overtime";
+import { describePenalty, enforcePenalty } from "@/lib/penalties";
+import type { PenaltyAgainst, PenaltyEnforcement, PenaltyType } from "@/lib/penalties";
+import { DEFENSE_PLAYS, findDefensePlay, findOffensePlay, isKickPlay, OFFENSE_PLAYS, tunePlay } from "@/lib/playbook";
+import type { DefensePlay, Gain, ScrimmagePlay } from "@/lib/playbook";
+import type { Rng } from "@/lib/rng";
+
+// Yards off the snap before the matchup, from the playbook's gain for a right or wrong answer.
+const drawGain = (rng: Rng, gain: Gain, roll: number, difficulty: string) => {
+  if ("roll" in gain) return roll + (difficulty === "hard" ? (gain.hardBonus ?? gain.bonus) : gain.bonus);
+  if ("yards" in gain) return gain.yards;
+  return rng.int(...(gain.bigRoll && roll >= gain.bigRoll.atLeast ? gain.bigRoll.range : gain.range));
+};
+
+// The play's modifier against the defense's category, falling back to its default; no entry means no modifier.
+const matchupMod = (rng: Rng, play: ScrimmagePlay, defense: DefensePlay, offenseCorrect: boolean) => {
+  const matchup = play.matchups[defense.category] ?? play.matchups.default;
+  if (!matchup) return 0;
+  return rng.int(...(offenseCorrect ? matchup.correct : (matchup.wrong ?? matchup.correct)));
+};
+
+const PASS_INTERFERENCE_ODDS = 30;
+
+export const tryLine = (side: Side) => spotFromOwnGoal(otherSide(side), TRY_SPOT);
+
+// Field reset for a kickoff; during the kickoff phase possession_side is the receiving team.
+export const kickoffBy = (kickingSide: Side) => ({
+  possession: otherSide(kickingSide),
+  offenseSide: otherSide(kickingSide),
+  defenseSide: kickingSide,
+  down: 1,
+  distance: 10,
+  yardLine: spotFromOwnGoal(kickingSide, KICKOFF_SPOT),
+});
+
+// The toss winner's choice: who receives the opening kickoff and who kicks off the second half. The side that
+// received first kicks after halftime, so a winner who defers gets the ball then.
+export const tossPossession = (winner: Side, choice: string) => {
+  const receiving = choice === "receive" ? winner : otherSide(winner);
+  return { possession: receiving, secondHalfKickoffSide: receiving };
+};
+
+export type TurnoverType = "interception" | "fumble" | "downs";
+
+// Takeaways only happen when the offense misses its question and the defense gets theirs right.
+// The playbook sets each play's base odds; a bigger defensive roll raises the odds and the return.
+const resolveTakeaway = (
+  rng: Rng,
+  offenseSide: Side,
+  lineOfScrimmage: number,
+  yards: number,
+  play: ScrimmagePlay,
+  rollDiff: number,
+) => {
+  const odds = Math.max(0, Math.min(60, play.turnover.odds + rollDiff * 3));
+  if (!rng.chance(odds)) return null;
+
+  const kind: TurnoverType = play.category === "pass" ? "interception" : "fumble";
+  const defenseSide = otherSide(offenseSide);
+  // Interceptions happen downfield; fumbles wherever the ball carrier went down.
+  const airYards = rng.int(...play.turnover.airYards);
+  const spot = clampToField(advanceBall(offenseSide, lineOfScrimmage, kind === "interception" ? airYards : yards));
+
+  // Picked off in the end zone: touchback to the defense's 20.
+  if (kind === "interception" && reachedEndZone(offenseSide, spot)) {
+    return {
+      kind,
+      spot,
+      returnYards: 0,
+      touchback: true,
+      yardLine: spotFromOwnGoal(defenseSide, TOUCHBACK_SPOT),
+      defensiveTouchdown: false,
+    };
+  }
+
+  const returnEnd = clampToField(
+    advanceBall(defenseSide, spot, rng.int(0, kind === "interception" ? 25 : 10) + Math.max(0, rollDiff)),
+  );
+  return {
+    kind,
+    spot,
+    returnYards: yardsGained(defenseSide, spot, returnEnd),
+    touchback: false,
+    yardLine: returnEnd,
+    defensiveTouchdown: reachedEndZone(defenseSide, returnEnd),
+  };
+};
+
+const resolvePunt = (
+  rng: Rng,
+  kickingSide: Side,
+  lineOfScrimmage: number,
+  dieOffense: number,
+  offenseCorrect: boolean,
+  defenseCorrect: boolean,
+) => {
+  const gross = Math.max(20, 35 + dieOffense * 2 + (offenseCorrect ? rng.int(3, 8) : -rng.int(0, 8)));
+  const landing = advanceBall(kickingSide, lineOfScrimmage, gross);
+  const receivingSide = otherSide(kickingSide);
+
+  // Into the end zone: touchback to the receiving team's 20.
+  if (reachedEndZone(kickingSide, landing)) {
+    return {
+      gross: yardsToGoal(kickingSide, lineOfScrimmage),
+      returnYards: 0,
+      touchback: true,
+      yardLine: spotFromOwnGoal(receivingSide, TOUCHBACK_SPOT),
+    };
+  }
+
+  const returnYards = defenseCorrect ? rng.int(4, 12) : rng.int(0, 5);
+  return {
+    gross,
+    returnYards,
+    touchback: false,
+    yardLine: Math.min(99, Math.max(1, advanceBall(receivingSide, landing, returnYards))),
+  };
+};
+
+// Field goal odds fall off with distance; the trivia answers and roll margin swing them.
+const resolveFieldGoal = (
+  rng: Rng,
+  yardsToGoalLine: number,
+  dieOffense: number,
+  dieDefense: number,
+  offenseCorrect: boolean,
+  defenseCorrect: boolean,
+) => {
+  const distance = yardsToGoalLine + 17;
+  let chance =
+    distance <= 30 ? 95 : distance <= 40 ? 85 : distance <= 50 ? 70 : distance <= 55 ? 50 : distance <= 60 ? 30 : 10;
+  chance += offenseCorrect ? 10 : -25;
+  if (defenseCorrect) chance -= 10;
+  chance += (dieOffense - dieDefense) * 2;
+  chance = Math.max(1, Math.min(99, chance));
+  return { distance, chance, good: rng.chance(chance) };
+};
+
+export type PlayState = {
+  phase: string; // "drive" for a scrimmage down, "conversion" for a two-point try
+  quarter: number;
+  clockSeconds: number;
+  clockStopped: boolean; // a timeout was called before this snap
+  down: number;
+  distance: number;
+  yardLine: number;
+  offenseSide: Side;
+  defenseSide: Side;
+  scoreHome: number;
+  scoreAway: number;
+  secondHalfKickoffSide: Side;
+  overtime: OvertimeState;
+};
+
+export type PlayCall = {
+  play: string;
+  difficulty: string;
+  correct: boolean;
+  roll: number;
+  risk?: number; // the side's playbook tuning for this play
+};
+
+export type PlayOutcome = {
+  state: {
+    phase: string;
+    quarter: number;
+    clockSeconds: number;
+    down: number;
+    distance: number;
+    yardLine: number;
+    possession: Side;
+    offenseSide: Side;
+    defenseSide: Side;
+    scoreHome: number;
+    scoreAway: number;
+  };
+  play: {
+    yards: number;
+    turnover: boolean;
+    turnoverType: TurnoverType | null;
+    touchdown: boolean;
+    safety: boolean;
+    conversionGood: boolean;
+    resultText: string;
+    kick: Record<string, unknown>;
+    takeaway: Record<string, unknown>;
+    foul: { type: PenaltyType; against: PenaltyAgainst } | null;
+    penalty: PenaltyEnforcement | null;
+  };
+  clock: ClockAdvance;
+  settlement: Settlement | null;
+};
+
+export const resolvePlay = (state: PlayState, offenseCall: PlayCall, defenseCall: PlayCall, rng: Rng): PlayOutcome => {
+  // Unknown calls fall back to the first entry in the playbook; the side's risk tuning applies to scrimmage plays.
+  const listed = findOffensePlay(offenseCall.play) ?? OFFENSE_PLAYS[0];
+  const offense = isKickPlay(listed) ? listed : tunePlay(listed, offenseCall.risk ?? 0);
+  const defense = findDefensePlay(defenseCall.play) ?? DEFENSE_PLAYS[0];
+  const offenseDiff = offenseCall.difficulty;
+  const dieOffense = offenseCall.roll;
+  const dieDefense = defenseCall.roll;
+  const finalOffenseCorrect = offenseCall.correct;
+  const finalDefenseCorrect = defenseCall.correct;
+
+  const isPassLike = offense.category === "pass";
+  const isKick = isKickPlay(offense);
+  const isConversion = state.phase === "conversion";
+  const rollDiff = dieDefense - dieOffense;
+  const isDeepShot = !isKickPlay(offense) && !!offense.deepShot;
+
+  // Fouls tied to the dice and the answers, on scrimmage plays only; kicks and tries are left alone.
+  // False start: the offense rolls a 1 and also misses its question. A 1 alone would flag every fourth easy (d4) snap,
+  // so the miss is what makes it a flinch. Medium's 2d4 can't come up 1, so medium calls never false start.
+  // Pass interference: on a deep ball both sides missed, the beaten defender may grab. The flag replaces the play,
+  // so it is only drawn when the pass was going nowhere (incomplete or a sack); a completion is never swapped out.
+  let foul: { type: PenaltyType; against: PenaltyAgainst } | null = null;
+  if (!isKick && !isConversion) {
+    if (dieOffense === 1 && !finalOffenseCorrect) {
+      foul = { type: "false_start", against: "offense" };
+    } else if (isDeepShot && !finalOffenseCorrect && !finalDefenseCorrect && rng.chance(PASS_INTERFERENCE_ODDS)) {
+      foul = { type: "pass_interference", against: "defense" };
+    }
+  }
+
+  let gained = 0;
+  let nextDown = state.down;
+  let nextDistance = state.distance;
+  let nextYardLine = state.yardLine;
+  let possession = state.offenseSide;
+  let offenseSide = state.offenseSide;
+  let defenseSide = state.defenseSide;
+  let turnover = false;
+  let turnoverType: TurnoverType | null = null;
+  let touchdown = false;
+  let safety = false;
+  let conversionGood = false;
+  let scoreHome = state.scoreHome;
+  let scoreAway = state.scoreAway;
+  let phase = state.phase;
+  let resultText: string;
+  let kickPayload: Record<string, unknown> = {};
+  let takeawayPayload: Record<string, unknown> = {};
+  let penalty: PenaltyEnforcement | null = null;
+
+  if (foul) {
+    // The foul replaces the play: walk it off from the line of scrimmage.
+    penalty = enforcePenalty(foul.type, foul.against, state.offenseSide, {
+      yardLine: state.yardLine,
+      down: state.down,
+      distance: state.distance,
+    });
+    nextDown = penalty.down;
+    nextDistance = penalty.distance;
+    nextYardLine = penalty.yardLine;
+    resultText = describePenalty(foul.type, foul.against, penalty);
+  } else if (isKick) {
+    // Special teams: possession always changes hands, either on a kickoff after a made FG or at the spot.
+    const kickingSide = state.offenseSide;
+    const receivingSide = state.defenseSide;
+    nextDown = 1;
+    possession = receivingSide;
+    offenseSide = receivingSide;
+    defenseSide = kickingSide;
+
+    if (offense.category === "punt") {
+      const punt = resolvePunt(rng, kickingSide, state.yardLine, dieOffense, finalOffenseCorrect, finalDefenseCorrect);
+      nextYardLine = punt.yardLine;
+      nextDistance = firstDownDistance(receivingSide, nextYardLine);
+      resultText = punt.touchback
+        ? `Punt ${punt.gross} yards, touchback`
+        : `Punt ${punt.gross} yards, returned ${punt.returnYards}`;
+      kickPayload = { kick: "punt", punt_yards: punt.gross, return_yards: punt.returnYards, touchback: punt.touchback };
+    } else {
+      const fg = resolveFieldGoal(
+        rng,
+        yardsToGoal(kickingSide, state.yardLine),
+        dieOffense,
+        dieDefense,
+        finalOffenseCorrect,
+        finalDefenseCorrect,
+      );
+      if (fg.good) {
+        if (kickingSide === "home") scoreHome += 3;
+        else scoreAway += 3;
+        phase = "kickoff";
+        ({
+          possession,
+          offenseSide,
+          defenseSide,
+          down: nextDown,
+          distance: nextDistance,
+          yardLine: nextYardLine,
+        } = kickoffBy(kickingSide));
+        resultText = `Field goal good from ${fg.distance} yards`;
+      } else {
+        // Missed kick: defense takes over at the line of scrimmage.
+        nextDistance = firstDownDistance(receivingSide, nextYardLine);
+        resultText = `Field goal no good from ${fg.distance} yards`;
+      }
+      kickPayload = { kick: "field_goal", kick_distance: fg.distance, field_goal_good: fg.good, odds: fg.chance };
+    }
+  } else {
+    let yards = drawGain(
+      rng,
+      finalOffenseCorrect ? offense.gain.correct : offense.gain.wrong,
+      dieOffense,
+      offenseDiff,
+    );
+    const mod = matchupMod(rng, offense, defense, finalOffenseCorrect);
+
+    // Soften negative mods on failed passes unless defense is correct
+    let appliedMod = mod;
+    if (isPassLike && !finalOffenseCorrect && !finalDefenseCorrect) {
+      appliedMod = Math.max(0, mod);
+    }
+    yards += appliedMod;
+
+    if (finalDefenseCorrect) {
+      // Defense halves gains; if offense also wrong, allow small losses
+      yards = Math.floor(yards / 2);
+      if (!finalOffenseCorrect) {
+        yards -= rng.int(1, 3);
+        if (isPassLike && rollDiff > 2) {
+          yards -= rng.int(0, 2); // sack/tackle for loss only when defense wins big
+        }
+      }
+    } else if (finalOffenseCorrect) {
+      yards += 2;
+    }
+
+    if (offense.missSack && !finalOffenseCorrect && dieOffense <= offense.missSack.maxRoll) {
+      yards = rng.int(...offense.missSack.range);
+    }
+
+    yards = Math.max(-20, Math.min(60, yards));
+
+    // Conversion tries end on a turnover; there are no defensive returns on a two-point try.
+    const takeaway =
+      !isConversion && !finalOffenseCorrect && finalDefenseCorrect
+        ? resolveTakeaway(rng, state.offenseSide, state.yardLine, yards, offense, rollDiff)
+        : null;
+
+    if (takeaway) {
+      // Possession flips at the end of the return; the new offense drives the other way.
+      const takingSide = state.defenseSide;
+      turnover = true;
+      turnoverType = takeaway.kind;
+      gained = takeaway.kind === "fumble" ? yardsGained(state.offenseSide, state.yardLine, takeaway.spot) : 0;
+      possession = takingSide;
+      offenseSide = takingSide;
+      defenseSide = state.offenseSide;
+      nextDown = 1;
+      const label = takeaway.kind === "interception" ? "Intercepted" : "Fumble lost";
+
+      if (takeaway.defensiveTouchdown) {
+        if (takingSide === "home") scoreHome += 6;
+        else scoreAway += 6;
+        touchdown = true;
+        phase = "conversion";
+        nextDistance = 2;
+        nextYardLine = tryLine(takingSide);
+        resultText = `${label}, returned ${takeaway.returnYards} yards for a touchdown`;
+      } else {
+        nextYardLine = takeaway.yardLine;
+        nextDistance = firstDownDistance(takingSide, nextYardLine);
+        resultText = takeaway.touchback
+          ? `${label} in the end zone, touchback`
+          : `${label}, returned ${takeaway.returnYards} yards`;
+      }
+      takeawayPayload = {
+        return_yards: takeaway.returnYards,
+        touchback: takeaway.touchback,
+        defensive_touchdown: takeaway.defensiveTouchdown,
+      };
+    } else {
+      const scoringSide = state.offenseSide;
+      const newYardLine = clampToField(advanceBall(scoringSide, state.yardLine, yards));
+      gained = yardsGained(scoringSide, state.yardLine, newYardLine);
+      const remaining = state.distance - gained;
+
+      nextDistance = remaining;
+      nextYardLine = newYardLine;
+
+      if (remaining <= 0) {
+        // First down achieved
+        nextDown = 1;
+        nextDistance = firstDownDistance(scoringSide, newYardLine);
+      } else {
+        nextDown = state.down + 1;
+      }
+
+      if (nextDown > 4) {
+        // Turnover on downs: the absolute spot stays put and the new offense drives the other way.
+        turnover = true;
+        turnoverType = "downs";
+        nextDown = 1;
+        nextDistance = firstDownDistance(otherSide(scoringSide), newYardLine);
+        possession = state.defenseSide;
+        offenseSide = state.defenseSide;
+        defenseSide = state.offenseSide;
+      }
+
+      const touchdownScored = reachedEndZone(scoringSide, newYardLine);
+      const safetyConceded = inOwnEndZone(scoringSide, newYardLine);
+
+      if (isConversion) {
+        // Two-point try: one snap from the 2, then the scoring team kicks off either way.
+        conversionGood = touchdownScored;
+        if (conversionGood) {
+          if (scoringSide === "home") scoreHome += 2;
+          else scoreAway += 2;
+        }
+        turnover = false;
+        phase = "kickoff";
+        ({
+          possession,
+          offenseSide,
+          defenseSide,
+          down: nextDown,
+          distance: nextDistance,
+          yardLine: nextYardLine,
+        } = kickoffBy(scoringSide));
+        resultText = conversionGood ? "Two-point conversion good" : "Two-point conversion failed";
+      } else if (touchdownScored) {
+        // Touchdown: six points, then the offense stays on the field for the try.
+        if (scoringSide === "home") scoreHome += 6;
+        else scoreAway += 6;
+        touchdown = true;
+        turnover = false;
+        phase = "conversion";
+        possession = scoringSide;
+        offenseSide = scoringSide;
+        defenseSide = otherSide(scoringSide);
+        nextDown = 1;
+        nextDistance = 2;
+        nextYardLine = tryLine(scoringSide);
+        resultText = "Touchdown";
+      } else if (safetyConceded) {
+        // Safety: two points for the defense, then a free kick by the team that gave it up.
+        if (scoringSide === "home") scoreAway += 2;
+        else scoreHome += 2;
+        safety = true;
+        turnover = false;
+        phase = "kickoff";
+        ({
+          possession,
+          offenseSide,
+          defenseSide,
+          down: nextDown,
+          distance: nextDistance,
+          yardLine: nextYardLine,
+        } = kickoffBy(scoringSide));
+        resultText = "Safety";
+      } else {
+        resultText = turnover ? "Turnover on downs" : `Gained ${gained} yards`;
+      }
+    }
+  }
+
+  // Burn game clock for the play; the quarter can end on it, including halftime and the final whistle.
+  const playKind: ClockPlayKind = isKick
+    ? "kick"
+    : isPassLike
+      ? gained === 0
+        ? "pass_incomplete"
+        : "pass_complete"
+      : "run";
+  // Tries are untimed, and a touchdown on the final snap of a half still gets its try before the quarter ends.
+  // A false start is dead before the snap, so no time comes off.
+  const burn =
+    isConversion || isUntimedOvertime(state.overtime) || foul?.type === "false_start"
+      ? 0
+      : clockBurnForPlay(playKind, state.clockStopped || turnover || touchdown || safety || isKick || !!foul);
+  const clock = touchdown
+    ? runOffClock(state.quarter, state.clockSeconds, burn)
+    : advanceClock(state.quarter, state.clockSeconds, burn);
+  if (clock.halftime) {
+    // Second half opens with a kickoff by the side chosen at the coin toss (defer rule included).
+    phase = "halftime";
+    ({
+      possession,
+      offenseSide,
+      defenseSide,
+      down: nextDown,
+      distance: nextDistance,
+      yardLine: nextYardLine,
+    } = kickoffBy(state.secondHalfKickoffSide));
+  }
+
+  const settlement = settleGame(state.overtime, {
+    scoreHome,
+    scoreAway,
+    clockExpired: clock.gameOver,
+    // College-style series end on any score or change of possession, but a touchdown still gets its try.
+    possessionOver: phase !== "conversion" && (phase === "kickoff" || offenseSide !== state.offenseSide),
+  });
+
+  return {
+    state: {
+      phase,
+      quarter: clock.quarter,
+      clockSeconds: clock.clockSeconds,
+      down: nextDown,
+      distance: nextDistance,
+      yardLine: nextYardLine,
+      possession,
+      offenseSide,
+      defenseSide,
+      scoreHome,
+      scoreAway,
+    },
+    play: {
+      yards: gained,
+      turnover,
+      turnoverType,
+      touchdown,
+      safety,
+      conversionGood,
+      resultText,
+      kick: kickPayload,
+      takeaway: takeawayPayload,
+      foul,
+      penalty,
+    },
+    clock,
+    settlement,
+  };
+};
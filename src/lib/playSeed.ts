@@ -0,0 +1,78 @@
+// Commit/reveal for each play's dice. A fresh secret seed is drawn before the play is called and only its SHA-256
+// (`games.play_seed_hash`) is published; the question, both rolls and the resolution each draw from a named stream
+// of that seed. Once the play resolves, the seed is written to the `plays` row so anyone can recheck the lot.
+
+import { createRng, drawsMatch, rollByDifficulty } from "@/lib/rng";
+import type { Draw } from "@/lib/rng";
+import type { createSupabaseServerClient } from "@/lib/supabaseServer";
+
+type Supabase = ReturnType<typeof createSupabaseServerClient>;
+
+export const PLAY_STREAMS = {
+  question: "question",
+  offenseRoll: "roll:offense",
+  defenseRoll: "roll:defense",
+  resolve: "resolve",
+} as const;
+
+export const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Stores a new secret seed for the game and returns its hash, ready to publish on `games.play_seed_hash`.
+export async function createPlaySeed(supabase: Supabase, gameId: string): Promise<string> {
+  const seed = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+  const seedHash = await sha256Hex(seed);
+  await supabase.from("play_seeds").insert({ game_id: gameId, seed, seed_hash: seedHash });
+  return seedHash;
+}
+
+export async function commitPlaySeed(supabase: Supabase, gameId: string): Promise<string> {
+  const seedHash = await createPlaySeed(supabase, gameId);
+  await supabase.from("games").update({ play_seed_hash: seedHash }).eq("id", gameId);
+  return seedHash;
+}
+
+// The committed seed for the play in progress; games that predate commitments get one on first use.
+export async function currentPlaySeed(supabase: Supabase, gameId: string): Promise<{ seed: string; seedHash: string }> {
+  const { data: game } = await supabase.from("games").select("play_seed_hash").eq("id", gameId).single();
+  const seedHash = game?.play_seed_hash ?? (await commitPlaySeed(supabase, gameId));
+  const { data: secret } = await supabase
+    .from("play_seeds")
+    .select("seed")
+    .eq("game_id", gameId)
+    .eq("seed_hash", seedHash)
+    .maybeSingle();
+  if (!secret) throw new Error("The committed seed for this play is missing.");
+  return { seed: secret.seed, seedHash };
+}
+
+export type PlayVerification = {
+  commitmentMatches: boolean;
+  offenseRollMatches: boolean;
+  defenseRollMatches: boolean;
+  drawsMatch: boolean;
+};
+
+// Client-side check of a resolved play against its revealed seed. `committedHash` is the hash published before the
+// calls locked (the `play_calls_locked` event); the `plays` row is written after the fact, so its own `seed_hash`
+// proves nothing. No commitment, no verification.
+export const verifyPlay = async (
+  play: {
+    seed: string;
+    difficulty?: string | null;
+    offense_roll?: number | null;
+    defense_roll?: number | null;
+    rng_draws?: Draw[] | null;
+  },
+  committedHash: string | null,
+): Promise<PlayVerification> => ({
+  commitmentMatches: !!committedHash && (await sha256Hex(play.seed)) === committedHash,
+  offenseRollMatches:
+    rollByDifficulty(createRng(play.seed, PLAY_STREAMS.offenseRoll), play.difficulty ?? "easy") === play.offense_roll,
+  defenseRollMatches: createRng(play.seed, PLAY_STREAMS.defenseRoll).int(1, 4) === play.defense_roll,
+  drawsMatch: drawsMatch(play.seed, PLAY_STREAMS.resolve, play.rng_draws ?? []),
+});
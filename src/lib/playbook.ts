@@ -0,0 +1,208 @@
+// Every call a side can make, as data. The play picker lists these and the resolver in playEngine.ts reads its
+// yardage, matchups and turnover odds from here, so a new play is a new entry rather than a new branch.
+// `play_calls.play_call` stores the id; rows from before the playbook hold the label, which the finders also accept.
+
+export type Range = [min: number, max: number];
+
+export type DefenseCategory = "run_stop" | "pass_d" | "blitz" | "zone";
+
+// Yards before the matchup: the offense's die plus a bonus, a flat number, or a spread (wider on a big roll).
+export type Gain =
+  | { roll: true; bonus: number; hardBonus?: number }
+  | { yards: number }
+  | { range: Range; bigRoll?: { atLeast: number; range: Range } };
+
+// Modifier drawn against a defensive category, by whether the offense got its question right.
+export type Matchup = { correct: Range; wrong?: Range };
+
+type PlayBase = { id: string; label: string };
+
+export type ScrimmagePlay = PlayBase & {
+  category: "run" | "pass"; // passes are picked off and stop the clock when incomplete; runs are fumbled
+  gain: { correct: Gain; wrong: Gain };
+  matchups: Partial<Record<DefenseCategory | "default", Matchup>>;
+  turnover: { odds: number; airYards: Range }; // base takeaway odds, and how far downfield a pick happens
+  deepShot?: boolean; // beaten defenders can draw pass interference
+  missSack?: { maxRoll: number; range: Range }; // a missed question on a low roll is a sack for this loss
+};
+
+export type KickPlay = PlayBase & { category: "punt" | "field_goal" };
+
+export type OffensePlay = ScrimmagePlay | KickPlay;
+
+export type DefensePlay = PlayBase & { category: DefenseCategory };
+
+export const OFFENSE_PLAYS: OffensePlay[] = [
+  {
+    id: "run",
+    label: "Run",
+    category: "run",
+    gain: { correct: { roll: true, bonus: 1 }, wrong: { range: [-3, -1] } },
+    matchups: {
+      run_stop: { correct: [-3, -1] },
+      pass_d: { correct: [2, 4] },
+      blitz: { correct: [3, 5], wrong: [-3, -1] },
+      zone: { correct: [1, 3] },
+    },
+    turnover: { odds: 8, airYards: [3, 15] },
+  },
+  {
+    id: "pass",
+    label: "Pass",
+    category: "pass",
+    gain: { correct: { roll: true, bonus: 1, hardBonus: 3 }, wrong: { yards: 0 } },
+    matchups: {
+      run_stop: { correct: [2, 4] },
+      pass_d: { correct: [-3, -1] },
+      blitz: { correct: [3, 5], wrong: [-4, -2] },
+      zone: { correct: [-1, 1] },
+    },
+    turnover: { odds: 12, airYards: [3, 15] },
+  },
+  {
+    id: "screen",
+    label: "Screen",
+    category: "pass",
+    gain: { correct: { roll: true, bonus: 1, hardBonus: 3 }, wrong: { yards: 0 } },
+    matchups: {
+      blitz: { correct: [4, 6], wrong: [-2, 0] },
+      default: { correct: [0, 2] },
+    },
+    turnover: { odds: 12, airYards: [3, 15] },
+  },
+  {
+    id: "trick",
+    label: "Trick",
+    category: "run",
+    gain: { correct: { roll: true, bonus: 0 }, wrong: { range: [-2, -1] } },
+    matchups: { default: { correct: [-2, 6] } },
+    turnover: { odds: 8, airYards: [3, 15] },
+  },
+  {
+    id: "hail_mary",
+    label: "Hail Mary",
+    category: "pass",
+    gain: { correct: { range: [12, 24], bigRoll: { atLeast: 17, range: [30, 50] } }, wrong: { yards: 0 } },
+    matchups: {
+      pass_d: { correct: [-5, -2] },
+      blitz: { correct: [4, 7], wrong: [-6, -3] },
+      zone: { correct: [-4, -1] },
+    },
+    turnover: { odds: 30, airYards: [15, 40] },
+    deepShot: true,
+    missSack: { maxRoll: 3, range: [-12, -5] },
+  },
+  { id: "punt", label: "Punt", category: "punt" },
+  { id: "field_goal", label: "Field Goal", category: "field_goal" },
+];
+
+export const DEFENSE_PLAYS: DefensePlay[] = [
+  { id: "run_stop", label: "Run stop", category: "run_stop" },
+  { id: "pass_d", label: "Pass D", category: "pass_d" },
+  { id: "blitz", label: "Blitz", category: "blitz" },
+  { id: "zone", label: "Zone", category: "zone" },
+];
+
+export const isKickPlay = (play: OffensePlay | DefensePlay): play is KickPlay =>
+  play.category === "punt" || play.category === "field_goal";
+
+// Kicks are fourth-down calls only.
+export const playsForDown = (down: number | null | undefined) =>
+  OFFENSE_PLAYS.filter((play) => down === 4 || !isKickPlay(play));
+
+const matchesCall = (call: string | null | undefined) => (play: PlayBase) =>
+  !!call && (play.id === call || play.label.toLowerCase() === call.toLowerCase());
+
+export const findOffensePlay = (call: string | null | undefined) => OFFENSE_PLAYS.find(matchesCall(call));
+
+export const findDefensePlay = (call: string | null | undefined) => DEFENSE_PLAYS.find(matchesCall(call));
+
+// Display name for a stored call; unknown calls are shown as stored.
+export const playLabel = (role: "offense" | "defense", call: string | null | undefined) =>
+  (role === "offense" ? findOffensePlay(call) : findDefensePlay(call))?.label ?? call ?? "-";
+
+// A side's own playbook for one game: the scrimmage plays it runs and how hard it leans on each.
+// Stored on `games.playbook_home` / `playbook_away`; null means the full book at neutral risk. Kicks are always in it.
+export type TeamPlaybook = { offense: string[]; defense: string[]; risk: Record<string, number> };
+
+// Balance limits: each play's risk runs from -2 (safe) to +2 (aggressive), and the book's net risk is capped,
+// so leaning into one play means playing another safe.
+export const PLAY_RISK_LIMIT = 2;
+export const PLAYBOOK_RISK_BUDGET = 2;
+export const MIN_OFFENSE_PLAYS = 3;
+export const MIN_DEFENSE_PLAYS = 2;
+
+// Phases where a side can rework its playbook: before the opening kickoff and at the half.
+export const PLAYBOOK_PHASES = ["lobby", "halftime"];
+
+export const SCRIMMAGE_PLAYS = OFFENSE_PLAYS.filter((play): play is ScrimmagePlay => !isKickPlay(play));
+
+export const DEFAULT_TEAM_PLAYBOOK: TeamPlaybook = {
+  offense: SCRIMMAGE_PLAYS.map((play) => play.id),
+  defense: DEFENSE_PLAYS.map((play) => play.id),
+  risk: {},
+};
+
+// Reads a stored playbook column, dropping anything the playbook no longer knows.
+export const teamPlaybook = (stored: unknown): TeamPlaybook => {
+  if (!stored || typeof stored !== "object") return DEFAULT_TEAM_PLAYBOOK;
+  const book = stored as Partial<TeamPlaybook>;
+  return {
+    offense: (book.offense ?? []).filter((id) => SCRIMMAGE_PLAYS.some((play) => play.id === id)),
+    defense: (book.defense ?? []).filter((id) => DEFENSE_PLAYS.some((play) => play.id === id)),
+    risk: Object.fromEntries(
+      Object.entries(book.risk ?? {}).filter(([id, risk]) => book.offense?.includes(id) && Number.isInteger(risk)),
+    ),
+  };
+};
+
+// The reason a playbook breaks the balance limits, or null when it's legal.
+export const playbookProblem = (book: TeamPlaybook): string | null => {
+  if (book.offense.length < MIN_OFFENSE_PLAYS) return `Pick at least ${MIN_OFFENSE_PLAYS} offensive plays.`;
+  if (book.defense.length < MIN_DEFENSE_PLAYS) return `Pick at least ${MIN_DEFENSE_PLAYS} defensive calls.`;
+  const enabled = SCRIMMAGE_PLAYS.filter((play) => book.offense.includes(play.id));
+  if (!enabled.some((play) => play.category === "run") || !enabled.some((play) => play.category === "pass")) {
+    return "Keep at least one run and one pass.";
+  }
+  const risks = Object.values(book.risk);
+  if (risks.some((risk) => Math.abs(risk) > PLAY_RISK_LIMIT)) {
+    return `Risk runs from -${PLAY_RISK_LIMIT} to +${PLAY_RISK_LIMIT} per play.`;
+  }
+  if (risks.reduce((sum, risk) => sum + risk, 0) > PLAYBOOK_RISK_BUDGET) {
+    return `Net risk can't exceed +${PLAYBOOK_RISK_BUDGET}; play something safer to lean on another call.`;
+  }
+  return null;
+};
+
+export const offensePlaysFor = (book: TeamPlaybook, down: number | null | undefined) =>
+  playsForDown(down).filter((play) => isKickPlay(play) || book.offense.includes(play.id));
+
+export const defensePlaysFor = (book: TeamPlaybook) => DEFENSE_PLAYS.filter((play) => book.defense.includes(play.id));
+
+// Each point of risk adds a yard when the play works and four points of takeaway odds.
+export const tunePlay = (play: ScrimmagePlay, risk: number): ScrimmagePlay => {
+  if (!risk) return play;
+  const shift = ([min, max]: Range): Range => [min + risk, max + risk];
+  const gain = play.gain.correct;
+  return {
+    ...play,
+    gain: {
+      ...play.gain,
+      correct:
+        "roll" in gain
+          ? { ...gain, bonus: gain.bonus + risk, hardBonus: gain.hardBonus === undefined ? undefined : gain.hardBonus + risk }
+          : "yards" in gain
+            ? { yards: gain.yards + risk }
+            : { range: shift(gain.range), bigRoll: gain.bigRoll && { ...gain.bigRoll, range: shift(gain.bigRoll.range) } },
+    },
+    turnover: { ...play.turnover, odds: Math.max(0, play.turnover.odds + risk * 4) },
+  };
+};
+
+export const playbookFor = (
+  game: { playbook_home?: unknown; playbook_away?: unknown },
+  side: string | null | undefined,
+): TeamPlaybook => teamPlaybook(side === "home" ? game.playbook_home : side === "away" ? game.playbook_away : null);
+
+export const inPlaybook = (book: TeamPlaybook, role: "offense" | "defense", play: OffensePlay | DefensePlay) =>
+  isKickPlay(play) || (role === "offense" ? book.offense : book.defense).includes(play.id);
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { createRng, rollByDifficulty, rollRange } from "@/lib/rng";
+
+describe("rollRange", () => {
+  for (const difficulty of ["easy", "medium", "hard", "hail_mary", "defense"]) {
+    it(`covers every ${difficulty} roll and nothing else`, () => {
+      const [min, max] = rollRange(difficulty);
+      const rng = createRng("roll-range-spec", difficulty);
+      const seen = new Set<number>();
+      for (let i = 0; i < 2000; i += 1) seen.add(rollByDifficulty(rng, difficulty));
+
+      expect(Math.min(...seen)).toBe(min);
+      expect(Math.max(...seen)).toBe(max);
+      expect(seen.size).toBe(max - min + 1);
+    });
+  }
+});
@@ -0,0 +1,119 @@
+// Seeded dice for everything random in a game. `games.rng_seed` is fixed at creation and every server action that
+// needs randomness claims the next block number (`games.rng_block`), so its draws are fully determined by
+// (seed, block). Plays draw from their own committed seed instead (see playSeed.ts), one named stream per purpose.
+// Each stream's draws go into the event payload; replaying them settles any dispute.
+
+import type { createSupabaseServerClient } from "@/lib/supabaseServer";
+
+export type Draw = [min: number, max: number, value: number];
+
+export type Rng = {
+  stream: number | string;
+  draws: Draw[]; // every integer handed out, with the range it was drawn from
+  int: (min: number, max: number) => number;
+  chance: (percent: number) => boolean;
+  pick: <T>(items: T[]) => T;
+  shuffle: <T>(items: T[]) => T[];
+};
+
+// FNV-1a: folds the seed and stream into mulberry32's 32-bit starting state.
+const hashSeed = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const mulberry32 = (state: number) => () => {
+  state = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(state ^ (state >>> 15), 1 | state);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const createRng = (seed: string, stream: number | string = 0): Rng => {
+  const next = mulberry32(hashSeed(`${seed}:${stream}`));
+  const draws: Draw[] = [];
+  const int = (min: number, max: number) => {
+    const value = Math.floor(next() * (max - min + 1)) + min;
+    draws.push([min, max, value]);
+    return value;
+  };
+  return {
+    stream,
+    draws,
+    int,
+    chance: (percent) => int(1, 100) <= percent,
+    pick: (items) => items[int(0, items.length - 1)],
+    shuffle: (items) => {
+      const copy = [...items];
+      for (let i = copy.length - 1; i > 0; i -= 1) {
+        const j = int(0, i);
+        [copy[i], copy[j]] = [copy[j], copy[i]];
+      }
+      return copy;
+    },
+  };
+};
+
+// What goes into an event payload so the draws can be checked against (seed, stream).
+export const rngPayload = (rng: Rng) => ({ rng_stream: rng.stream, rng_draws: [...rng.draws] });
+
+// True when `draws` are exactly what (seed, stream) produces for the same ranges.
+export const drawsMatch = (seed: string, stream: number | string, draws: Draw[]) => {
+  const rng = createRng(seed, stream);
+  return draws.every(([min, max, value]) => rng.int(min, max) === value);
+};
+
+// What rollByDifficulty can come up with for a difficulty; anything else (the defense's die included) is a d4.
+// A roll the ref enters by hand has to be a whole number in this range.
+export const rollRange = (difficulty: string): [min: number, max: number] => {
+  switch (difficulty) {
+    case "medium":
+      return [2, 8];
+    case "hard":
+      return [1, 10];
+    case "hail_mary":
+      return [1, 20];
+    default:
+      return [1, 4];
+  }
+};
+
+// Offense dice by difficulty; the defense always rolls a d4.
+export const rollByDifficulty = (rng: Rng, difficulty: string) => {
+  switch (difficulty) {
+    case "easy":
+      return rng.int(1, 4);
+    case "medium":
+      return rng.int(1, 4) + rng.int(1, 4);
+    case "hard":
+      return rng.int(1, 10);
+    case "hail_mary":
+      return rng.int(1, 20);
+    default:
+      return rng.int(1, 4);
+  }
+};
+
+// Reserves the game's next block with a compare-and-swap on rng_block, so concurrent actions never share draws.
+export async function claimGameRng(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  gameId: string,
+): Promise<Rng> {
+  for (let attempt = 0; attempt < 5; attempt += 1) {
+    const { data: game } = await supabase.from("games").select("rng_seed, rng_block").eq("id", gameId).single();
+    if (!game?.rng_seed) break;
+    const block = game.rng_block ?? 0;
+    const { data: claimed } = await supabase
+      .from("games")
+      .update({ rng_block: block + 1 })
+      .eq("id", gameId)
+      .eq("rng_block", block)
+      .select("id");
+    if (claimed?.length) return createRng(game.rng_seed, block);
+  }
+  throw new Error("Could not reserve dice for this game.");
+}
@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+
+// Who is calling a server action. Creating or joining a lobby signs the new player into an HttpOnly cookie, and
+// actions take the player from it rather than from an id the browser sends. The browser's own Supabase reads use a
+// short-lived token minted from the same session, which RLS scopes to that game. Server-side only: it needs the secrets.
+
+const SESSION_COOKIE = "gridiron-session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // seconds; outlasts any game night
+
+const GAME_TOKEN_SECONDS = 60 * 60;
+
+const sessionSecret = process.env.SESSION_SECRET;
+const supabaseJwtSecret = process.env.SUPABASE_JWT_SECRET;
+
+if (!sessionSecret || !supabaseJwtSecret) {
+  throw new Error("Missing session env vars");
+}
+
+export type Session = { playerId: string; gameId: string };
+
+export const NOT_SIGNED_IN = "Not signed in to this game.";
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const sign = (body: string, secret = sessionSecret) => createHmac("sha256", secret).update(body).digest("base64url");
+
+// Cookie value: base64url JSON of the session plus when it was issued, then an HMAC of that.
+export async function startSession(session: Session) {
+  const body = encode({ ...session, issuedAt: Date.now() });
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE, `${body}.${sign(body)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+}
+
+export async function endSession() {
+  const cookieStore = await cookies();
+  cookieStore.delete(SESSION_COOKIE);
+}
+
+export async function readSession(): Promise<Session | null> {
+  const cookieStore = await cookies();
+  const [body, signature] = cookieStore.get(SESSION_COOKIE)?.value.split(".") ?? [];
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(body, "base64url").toString()) as Partial<Session & { issuedAt: number }>;
+    if (typeof session.playerId !== "string" || typeof session.gameId !== "string") return null;
+    if (!session.issuedAt || Date.now() - session.issuedAt > SESSION_MAX_AGE * 1000) return null;
+    return { playerId: session.playerId, gameId: session.gameId };
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in player when the session belongs to this game; null when there is none or it is for another game.
+export async function sessionPlayerId(gameId: string) {
+  const session = await readSession();
+  return session?.gameId === gameId ? session.playerId : null;
+}
+
+// A Supabase JWT for the browser client. It keeps the anon role; the policies in schema.sql read `game_id` from it.
+export function gameAccessToken(session: Session) {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + GAME_TOKEN_SECONDS;
+  const body = `${encode({ alg: "HS256", typ: "JWT" })}.${encode({
+    role: "anon",
+    game_id: session.gameId,
+    player_id: session.playerId,
+    iat: issuedAt,
+    exp: expiresAt,
+  })}`;
+  return { token: `${body}.${sign(body, supabaseJwtSecret)}`, expiresAt };
+}
@@ -7,4 +7,27 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error("Missing Supabase client env vars");
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Reads and realtime go out with a token for the signed-in player's game (from /api/game-token); RLS only
+// returns that game's rows, and the bare anon key reads nothing. Refreshed a minute before it expires.
+let gameToken: { token: string; expiresAt: number } | null = null;
+
+const accessToken = async () => {
+  if (typeof window === "undefined") return null;
+  if (gameToken && Date.now() < (gameToken.expiresAt - 60) * 1000) return gameToken.token;
+  try {
+    const res = await fetch("/api/game-token");
+    const body = (await res.json()) as { token: string | null; expiresAt?: number };
+    gameToken = body.token && body.expiresAt ? { token: body.token, expiresAt: body.expiresAt } : null;
+  } catch {
+    gameToken = null;
+  }
+  return gameToken?.token ?? null;
+};
+
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, { accessToken });
+
+// Call after joining or leaving a game so reads and subscriptions switch to the new session.
+export const resetGameToken = () => {
+  gameToken = null;
+  void supabase.realtime.setAuth();
+};
@@ -0,0 +1,126 @@
+// Who speaks for a side when it calls a play. Each side picks a mode on `games.call_mode_home` / `call_mode_away`:
+// its captain calls every play, the call rotates through the roster one snap at a time, or the whole side votes.
+// Whatever the mode, the side ends up with one authoritative `play_calls` row per play.
+// Answers work the same way: every teammate answers (`play_answers`) and the side's rule grades them into
+// the single `play_calls.answer`.
+
+export type CallMode = "captain" | "rotation" | "vote";
+
+export const CALL_MODES: CallMode[] = ["captain", "rotation", "vote"];
+
+export const CALL_MODE_LABELS: Record<CallMode, string> = {
+  captain: "Captain calls",
+  rotation: "Rotating caller",
+  vote: "Team vote",
+};
+
+export const callModeFor = (
+  game: { call_mode_home?: string | null; call_mode_away?: string | null },
+  side: string | null | undefined,
+): CallMode => {
+  const mode = side === "home" ? game.call_mode_home : side === "away" ? game.call_mode_away : null;
+  return CALL_MODES.includes(mode as CallMode) ? (mode as CallMode) : "captain";
+};
+
+// The named captain while they're still on the side, otherwise whoever joined first.
+export const effectiveCaptain = (named: string | null | undefined, rosterIds: string[]) =>
+  named && rosterIds.includes(named) ? named : (rosterIds[0] ?? null);
+
+// The roster runs in join order; every snap in the game moves the call to the next teammate.
+export const rotationCaller = (rosterIds: string[], snaps: number) =>
+  rosterIds.length ? rosterIds[snaps % rosterIds.length] : null;
+
+export type TeamVote = { player_id: string; play_call: string; difficulty: string | null; created_at: string };
+
+export type VoteTally = {
+  leader: { play_call: string; difficulty: string } | null; // the call the side would run right now
+  decided: boolean; // a strict majority agrees, or everyone has voted
+  counts: Record<string, number>;
+};
+
+// Plurality wins, ties go to the call that got its first vote earliest. The difficulty is the one most of the
+// leader's voters picked, with the same tie-break.
+export const tallyVotes = (votes: TeamVote[], rosterSize: number): VoteTally => {
+  const ordered = [...votes].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const counts: Record<string, number> = {};
+  for (const vote of ordered) counts[vote.play_call] = (counts[vote.play_call] ?? 0) + 1;
+
+  const mostVoted = (values: string[]) =>
+    values.reduce<string | null>(
+      (best, value) =>
+        best === null || values.filter((v) => v === value).length > values.filter((v) => v === best).length
+          ? value
+          : best,
+      null,
+    );
+
+  const playCall = mostVoted(ordered.map((vote) => vote.play_call));
+  if (playCall === null) return { leader: null, decided: false, counts };
+
+  const difficulty =
+    mostVoted(ordered.filter((vote) => vote.play_call === playCall).map((vote) => vote.difficulty ?? "easy")) ?? "easy";
+  const decided = counts[playCall] * 2 > rosterSize || ordered.length >= rosterSize;
+  return { leader: { play_call: playCall, difficulty }, decided, counts };
+};
+
+export type AnswerRule = "majority" | "any_correct" | "all_correct" | "designated";
+
+export const ANSWER_RULES: AnswerRule[] = ["majority", "any_correct", "all_correct", "designated"];
+
+export const ANSWER_RULE_LABELS: Record<AnswerRule, string> = {
+  majority: "Majority right",
+  any_correct: "Anyone right",
+  all_correct: "Everyone right",
+  designated: "Captain answers",
+};
+
+export const answerRuleFor = (
+  game: { answer_rule_home?: string | null; answer_rule_away?: string | null },
+  side: string | null | undefined,
+): AnswerRule => {
+  const rule = side === "home" ? game.answer_rule_home : side === "away" ? game.answer_rule_away : null;
+  return ANSWER_RULES.includes(rule as AnswerRule) ? (rule as AnswerRule) : "majority";
+};
+
+export type TeammateAnswer = { player_id: string; correct: boolean };
+
+// Grades a side's answers under its rule. `correct` is null until the result can no longer change;
+// once the play clock runs out (`final`), anyone who hasn't answered counts as wrong.
+export const gradeSide = (
+  rule: AnswerRule,
+  answers: TeammateAnswer[],
+  rosterIds: string[],
+  captainId: string | null,
+  final = false,
+): boolean | null => {
+  const answered = answers.filter((answer) => rosterIds.includes(answer.player_id));
+  const right = answered.filter((answer) => answer.correct).length;
+  const wrong = answered.length - right + (final ? rosterIds.length - answered.length : 0);
+  const size = rosterIds.length;
+
+  switch (rule) {
+    case "designated": {
+      const captain = answered.find((answer) => answer.player_id === captainId);
+      return captain ? captain.correct : final ? false : null;
+    }
+    case "any_correct":
+      return right > 0 ? true : wrong >= size ? false : null;
+    case "all_correct":
+      return wrong > 0 ? false : right >= size ? true : null;
+    case "majority":
+      return right * 2 > size ? true : wrong * 2 >= size ? false : null;
+  }
+};
+
+// The choice a side stands on: its captain's under a designated answerer, otherwise the first teammate's in.
+// `answers` must be in the order they came in.
+export const sideAnswerIndex = (
+  rule: AnswerRule,
+  answers: (TeammateAnswer & { answer_index: number | null })[],
+  rosterIds: string[],
+  captainId: string | null,
+): number | null => {
+  const answered = answers.filter((answer) => rosterIds.includes(answer.player_id));
+  const standing = rule === "designated" ? answered.find((answer) => answer.player_id === captainId) : answered[0];
+  return standing?.answer_index ?? null;
+};
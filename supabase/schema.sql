@@ -37,8 +37,8 @@ alter table public.games add column if not exists distance int default 10;
 alter table public.games add column if not exists yard_line int default 25;
 alter table public.games add column if not exists score_home int default 0;
 alter table public.games add column if not exists score_away int default 0;
-alter table public.games add column if not exists phase text default 'lobby'; -- lobby, coin_toss, kickoff, drive, finished
-alter table public.games add column if not exists play_subphase text; -- play_call, question, rolls, resolve
+alter table public.games add column if not exists phase text default 'lobby'; -- lobby, coin_toss, kickoff, drive, conversion, halftime, finished (overtime reuses coin_toss onward)
+alter table public.games add column if not exists play_subphase text; -- choice, play_call, question, rolls, rolls_done, resolving, kick_return
 alter table public.games add column if not exists offense_side text check (offense_side in ('home','away'));
 alter table public.games add column if not exists defense_side text check (defense_side in ('home','away'));
 alter table public.games add column if not exists last_play_id uuid;
@@ -180,3 +180,222 @@ create table if not exists public.play_calls (
 create index if not exists idx_play_calls_game_seq on public.play_calls (game_id, seq);
 alter table public.play_calls
   add constraint if not exists unique_play_call_seq unique (game_id, player_id, seq);
+
+-- Football play questions: the question served for the current play and each side's chosen answer
+alter table public.games
+  add column if not exists current_question_id uuid references public.questions(id) on delete set null;
+alter table public.play_calls
+  add column if not exists answer_index int;
+
+-- Kickoffs: the kicking team's call (normal, squib, onside) while the return team answers
+alter table public.games
+  add column if not exists kickoff_type text check (kickoff_type in ('normal','squib','onside'));
+
+-- Overtime: the ref's rule choice, the current OT period (0 in regulation) and college-style series used in it,
+-- plus the winning side for football games (trivia uses winner_player_id)
+alter table public.games
+  add column if not exists overtime_rule text default 'sudden_death' check (overtime_rule in ('sudden_death','college'));
+alter table public.games
+  add column if not exists overtime_period int default 0;
+alter table public.games
+  add column if not exists overtime_possessions int default 0;
+alter table public.games
+  add column if not exists winner_side text check (winner_side in ('home','away'));
+
+-- Timeouts: remaining per side this half, and whether one has stopped the clock before the next snap
+alter table public.games
+  add column if not exists timeouts_home int default 3;
+alter table public.games
+  add column if not exists timeouts_away int default 3;
+alter table public.games
+  add column if not exists clock_stopped boolean default false;
+
+-- Enforced play clock: deadline for the current play_seq's subphase (play_call, question, rolls, rolls_done)
+alter table public.games
+  add column if not exists play_clock_deadline timestamptz;
+
+-- Undo: the games columns as they stood before each play, and whether the ref has voided it
+alter table public.plays
+  add column if not exists pre_state jsonb;
+alter table public.plays
+  add column if not exists voided boolean not null default false;
+
+-- Seeded dice: every random draw in a game comes from (rng_seed, rng_block); rng_block counts the blocks claimed so far
+alter table public.games
+  add column if not exists rng_seed text not null default gen_random_uuid()::text;
+alter table public.games
+  add column if not exists rng_block int not null default 0;
+
+-- Provably fair plays: each play's secret seed, published only as its SHA-256 until the play resolves.
+-- No client reads play_seeds; the revealed seed and the resolution draws are copied onto the plays row.
+create table if not exists public.play_seeds (
+  id uuid primary key default gen_random_uuid(),
+  game_id uuid not null references public.games(id) on delete cascade,
+  seed text not null,
+  seed_hash text not null,
+  created_at timestamptz not null default now(),
+  unique (game_id, seed_hash)
+);
+alter table public.games
+  add column if not exists play_seed_hash text;
+alter table public.plays
+  add column if not exists seed text;
+alter table public.plays
+  add column if not exists seed_hash text;
+alter table public.plays
+  add column if not exists rng_draws jsonb;
+
+-- Team playbooks: each side's enabled plays and risk tuning ({offense, defense, risk}); null is the full book
+alter table public.games
+  add column if not exists playbook_home jsonb;
+alter table public.games
+  add column if not exists playbook_away jsonb;
+
+-- Team roles: how each side calls its plays (captain, rotation, vote) and its named captain.
+-- play_calls now holds one authoritative call per side per play; a voting side's ballots go in play_call_votes.
+alter table public.games
+  add column if not exists call_mode_home text default 'captain' check (call_mode_home in ('captain','rotation','vote'));
+alter table public.games
+  add column if not exists call_mode_away text default 'captain' check (call_mode_away in ('captain','rotation','vote'));
+alter table public.games
+  add column if not exists captain_home uuid references public.players(id) on delete set null;
+alter table public.games
+  add column if not exists captain_away uuid references public.players(id) on delete set null;
+
+-- Keep the latest row where teammates wrote duplicates under the old per-player key
+delete from public.play_calls a
+  using public.play_calls b
+  where a.game_id = b.game_id and a.seq = b.seq and a.role = b.role and a.created_at < b.created_at;
+alter table public.play_calls
+  drop constraint if exists unique_play_call_seq;
+alter table public.play_calls
+  add constraint if not exists unique_play_call_role unique (game_id, seq, role);
+
+create table if not exists public.play_call_votes (
+  id uuid primary key default gen_random_uuid(),
+  game_id uuid not null references public.games(id) on delete cascade,
+  player_id uuid not null references public.players(id) on delete cascade,
+  side text check (side in ('home','away')),
+  role text, -- offense or defense
+  play_call text,
+  difficulty text,
+  seq int,
+  created_at timestamptz not null default now(),
+  unique (game_id, player_id, seq)
+);
+create index if not exists idx_play_call_votes_game_seq on public.play_call_votes (game_id, seq);
+
+-- Per-teammate answers: how each side's answers are graded, and every player's answer to each play's question.
+-- play_id is filled in when the play resolves; rows still without one belong to the play in progress.
+alter table public.games
+  add column if not exists answer_rule_home text default 'majority' check (answer_rule_home in ('majority','any_correct','all_correct','designated'));
+alter table public.games
+  add column if not exists answer_rule_away text default 'majority' check (answer_rule_away in ('majority','any_correct','all_correct','designated'));
+
+create table if not exists public.play_answers (
+  id uuid primary key default gen_random_uuid(),
+  game_id uuid not null references public.games(id) on delete cascade,
+  play_id uuid references public.plays(id) on delete cascade,
+  player_id uuid not null references public.players(id) on delete cascade,
+  side text check (side in ('home','away')),
+  role text, -- offense or defense
+  seq int,
+  question_id uuid references public.questions(id) on delete set null,
+  answer_index int,
+  correct boolean not null,
+  created_at timestamptz not null default now()
+);
+create index if not exists idx_play_answers_game_seq on public.play_answers (game_id, seq);
+create unique index if not exists unique_play_answer_pending on public.play_answers (game_id, player_id, seq)
+  where play_id is null;
+
+-- Row-level security: the browser's anon client reads only the game named in its token (minted from the player's
+-- session, see src/lib/session.ts) and never writes. Every write goes through the service-role server actions,
+-- which bypass RLS. Column grants hide what a player in the game still must not see.
+create or replace function public.session_game_id()
+returns uuid
+language sql
+stable
+as $$
+  select nullif(auth.jwt() ->> 'game_id', '')::uuid;
+$$;
+
+alter table public.games enable row level security;
+alter table public.players enable row level security;
+alter table public.questions enable row level security;
+alter table public.rounds enable row level security;
+alter table public.answers enable row level security;
+alter table public.plays enable row level security;
+alter table public.game_events enable row level security;
+alter table public.play_calls enable row level security;
+alter table public.play_seeds enable row level security;
+alter table public.play_call_votes enable row level security;
+alter table public.play_answers enable row level security;
+
+revoke insert, update, delete, truncate on all tables in schema public from anon, authenticated;
+revoke execute on function public.increment_player_counts(uuid, int, int) from public, anon, authenticated;
+
+-- games: every column but rng_seed, which would predict every draw. New games columns need adding here.
+revoke select on public.games from anon, authenticated;
+grant select (
+  id, code, status, home_team_name, away_team_name, created_at, lobby_locked, host_player_id, quarter, clock_seconds,
+  play_clock_seconds, possession_side, down, distance, yard_line, score_home, score_away, phase, play_subphase,
+  offense_side, defense_side, last_play_id, toss_result, toss_winner_side, toss_choice, second_half_kickoff_side,
+  current_play_seq, mode, picker_player_id, target_score, current_block, winner_player_id, current_question_id,
+  kickoff_type, overtime_rule, overtime_period, overtime_possessions, winner_side, timeouts_home, timeouts_away,
+  clock_stopped, play_clock_deadline, rng_block, play_seed_hash, playbook_home, playbook_away, call_mode_home,
+  call_mode_away, captain_home, captain_away, answer_rule_home, answer_rule_away
+) on public.games to anon, authenticated;
+drop policy if exists "read own game" on public.games;
+create policy "read own game" on public.games
+  for select to anon, authenticated using (id = public.session_game_id());
+
+drop policy if exists "read own game" on public.players;
+create policy "read own game" on public.players
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+drop policy if exists "read own game" on public.rounds;
+create policy "read own game" on public.rounds
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+drop policy if exists "read own game" on public.plays;
+create policy "read own game" on public.plays
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+drop policy if exists "read own game" on public.game_events;
+create policy "read own game" on public.game_events
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+-- questions: only those served in the caller's game, and never correct_index; reveals come from the server
+revoke select on public.questions from anon, authenticated;
+grant select (id, text, choices, difficulty, category, type, source, created_at) on public.questions to anon, authenticated;
+drop policy if exists "read own game" on public.questions;
+create policy "read own game" on public.questions
+  for select to anon, authenticated using (
+    exists (select 1 from public.games g where g.id = public.session_game_id() and g.current_question_id = questions.id)
+    or exists (select 1 from public.rounds r where r.game_id = public.session_game_id() and r.question_id = questions.id)
+  );
+
+-- answers: who has answered and is ready, but not their choices or grading until the server reveals the round
+revoke select on public.answers from anon, authenticated;
+grant select (id, round_id, game_id, player_id, ready_next, created_at) on public.answers to anon, authenticated;
+drop policy if exists "read own game" on public.answers;
+create policy "read own game" on public.answers
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+-- play_calls: whether each side has answered and rolled, but not the call itself or the chosen answer
+revoke select on public.play_calls from anon, authenticated;
+grant select (id, game_id, player_id, side, role, seq, answer, roll, ready_after_roll, created_at)
+  on public.play_calls to anon, authenticated;
+drop policy if exists "read own game" on public.play_calls;
+create policy "read own game" on public.play_calls
+  for select to anon, authenticated using (game_id = public.session_game_id());
+
+-- play_answers: only once their play has resolved, so a pending answer can't give the question away
+drop policy if exists "read resolved answers" on public.play_answers;
+create policy "read resolved answers" on public.play_answers
+  for select to anon, authenticated using (game_id = public.session_game_id() and play_id is not null);
+
+-- play_seeds and play_call_votes stay server-only: no policies, so the anon client reads nothing
+revoke select on public.play_seeds from anon, authenticated;
+revoke select on public.play_call_votes from anon, authenticated;